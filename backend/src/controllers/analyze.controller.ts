@@ -1,91 +1,431 @@
 /** @format */
 
 import type { Request, Response } from "express";
-import { vcfService } from "../services/vcf.service";
-import { ruleEngine } from "../services/ruleEngine.service";
+import {
+  vcfService,
+  VcfParseError,
+  SITES_ONLY_SAMPLE,
+  type ParsedVariant,
+  type ParsedVcf,
+} from "../services/vcf.service";
+import {
+  tabixService,
+  TabixIndexError,
+} from "../services/tabix.service";
+import {
+  geneRegionService,
+  type GenomeBuild,
+} from "../services/geneRegion.service";
+import {
+  genotypeArrayService,
+  type ArrayFormat,
+} from "../services/genotypeArray.service";
+import {
+  ruleEngine,
+  type CallabilityStatus,
+  type Recommendation,
+  type RuleProvenance,
+} from "../services/ruleEngine.service";
+import {
+  drugDictionaryService,
+  UnknownDrugError,
+  type DrugResolution,
+} from "../services/drugDictionary.service";
+import {
+  warfarinDosingService,
+  type PatientCovariates,
+  type WarfarinDoseEstimate,
+} from "../services/warfarinDosing.service";
+import type { Phenoconversion } from "../services/phenoconversion.service";
+import type {
+  ConfidenceBreakdown,
+  EvidenceLevel,
+} from "../services/confidence.service";
+import {
+  qualityService,
+  type ExcludedCall,
+  type QualityMetrics,
+} from "../services/quality.service";
 import { cacheService } from "../services/cache.service";
 import { contextService } from "../services/context.service";
 import { llmService } from "../services/llm.service";
+import { mapWithConcurrency } from "../utils/mapWithConcurrency";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import { Readable } from "stream";
+
+type AnalysisMode = "patient" | "expert";
+
+interface RiskAssessment {
+  level: string;
+  severity: string;
+  evidence_level: EvidenceLevel | null;
+  confidence_score: number;
+  confidence_breakdown: ConfidenceBreakdown | undefined;
+}
+
+type PharmacogenomicProfile = Pick<
+  Recommendation,
+  | "gene"
+  | "phenotype"
+  | "genotype_phenotype"
+  | "detected_variant"
+  | "diplotype"
+  | "activity_score"
+  | "phased"
+  | "copy_number"
+  | "diplotype_candidates"
+  | "zygosity"
+  | "callability"
+  | "gene_results"
+> & {
+  phenoconversion: Phenoconversion | null;
+  total_variants_found: number;
+  signature_hash: string;
+};
+
+// Fields are null when no rule matched.
+interface ProvenanceReport {
+  rule: string | null;
+  source: RuleProvenance["source"] | null;
+  guideline: string | null;
+  version: string | null;
+  published: string | null;
+  classification: EvidenceLevel | null;
+  reference: string | null;
+  knowledge_base_hash: string;
+}
+
+interface ExplainabilityTree {
+  drug: string;
+  gene: string | undefined;
+  variant: string;
+  diplotype: string | undefined;
+  activity_score: number | null | undefined;
+  genotype_phenotype: string | undefined;
+  /** Reasoning for every gene a concomitant medication acts on. */
+  phenoconversion: string[];
+  phenotype: string | undefined;
+  callability: CallabilityStatus | undefined;
+  risk: string;
+  rule: string | undefined;
+  recommendation: string;
+}
+
+// Per-sample analysis payload; cached entries are stored in this same shape.
+interface LlmExplanation {
+  summary: string;
+}
+
+interface AnalysisResponse {
+  patient_id: string;
+  sample_id: string | undefined;
+  drug: string;
+  timestamp: string;
+  mode: AnalysisMode;
+  risk_assessment: RiskAssessment;
+  pharmacogenomic_profile: PharmacogenomicProfile;
+  clinical_recommendation: string;
+  provenance: ProvenanceReport;
+  dose_estimate: WarfarinDoseEstimate | undefined;
+  llm_generated_explanation: LlmExplanation;
+  explainability_tree: ExplainabilityTree;
+  genomic_signature_id: string;
+  quality_metrics: QualityMetrics;
+  excluded_calls: ExcludedCall[];
+  cache_status: "HIT" | "MISS";
+}
+
+interface PanelFinding {
+  drug: string;
+  gene: string | undefined;
+  diplotype: string | undefined;
+  phenotype: string | undefined;
+  risk_level: string;
+  severity: string;
+  recommendation: string;
+}
+
+interface PanelSummary {
+  drugs_analyzed: number;
+  actionable_count: number;
+  actionable: PanelFinding[];
+  /** Drugs for which no phenotype could be called. */
+  no_result: string[];
+}
+
+// One sample's panel: every requested drug against the same calls.
+interface PanelResponse {
+  sample_id: string | undefined;
+  summary: PanelSummary;
+  results: AnalysisResponse[];
+}
+
+// Where the genotypes came from; array imports carry a coverage notice.
+type DataSource =
+  | { type: "vcf" }
+  | {
+      type: "genotyping_array";
+      format: ArrayFormat;
+      genome_build: GenomeBuild;
+      notice: string;
+      strand_flipped: string[];
+      strand_ambiguous: string[];
+      unmatched_alleles: string[];
+    };
+
+// Bytes read from the start of an upload to recognise raw array exports.
+const SNIFF_BYTES = 4096;
+
+// Units of the numeric covariates, for error messages.
+const COVARIATE_UNITS: Record<string, string> = {
+  age: "years",
+  height_cm: "centimetres",
+  weight_kg: "kilograms",
+};
+
+/** A form field other than the upload is malformed; surfaced as a 400. */
+class InvalidFieldError extends Error {
+  public readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = "InvalidFieldError";
+    this.field = field;
+  }
+}
+
+// Panel drugs analysed (and LLM calls made) concurrently per sample.
+const PANEL_CONCURRENCY = 3;
+
+// Rule severities that make a panel finding actionable, most severe first.
+const ACTIONABLE_SEVERITIES = ["critical", "high", "medium"];
 
 export class AnalyzeController {
   public async analyze(req: Request, res: Response): Promise<void> {
     try {
       // 1. Validate Input
-      // Multer puts file in req.file.
-      // We expect 'file' field name.
+      // Multer puts uploads in req.files (keyed by field name).
+      // We expect 'file' field name, plus an optional 'index' (.tbi/.csi).
       // We expect 'drug' body field.
 
-      const file = req.file;
-      const drug = req.body.drug;
-      const mode = (req.body.mode as "patient" | "expert") || "patient";
+      const file = this.getUpload(req, "file");
+      const indexFile = this.getUpload(req, "index");
+      const input = req.body.drug;
+      const mode = (req.body.mode as AnalysisMode) || "patient";
 
       if (!file) {
         res.status(400).json({ error: "No VCF file provided." });
         return;
       }
 
-      if (!drug) {
+      if (!input) {
         res.status(400).json({ error: "No Drug specified." });
         return;
       }
+      // Brand names, synonyms and RxCUIs map to the canonical drug.
+      const [resolution] = drugDictionaryService.resolveSupported([
+        String(input),
+      ]);
+      const drug = resolution!.drug;
 
       // 2. Parse VCF
-      // Assuming file is in memory (buffer) or we read from path.
-      // If multer uses memory storage, req.file.buffer is available.
-      // If disk storage, fs.readFileSync(req.file.path).
-      // I'll assume buffer for simplicity or handle both.
-
-      let vcfContent = "";
-      if (file.buffer) {
-        vcfContent = file.buffer.toString("utf-8");
-      } else if (file.path) {
-        const fs = require("fs");
-        vcfContent = fs.readFileSync(file.path, "utf-8");
-      } else {
+      const patient = this.parsePatientCovariates(req.body);
+      const loaded = await this.loadGenotypes(req, file, indexFile);
+      if (!loaded) {
         res.status(500).json({ error: "File upload error." });
         return;
       }
+      const { parsed, dataSource } = loaded;
+
+      // Sites-only or single-sample VCF: keep the flat response shape. A
+      // multi-sample VCF stays keyed by sample ID even when `samples` picks one.
+      if (parsed.sampleCount <= 1) {
+        const sampleId = parsed.sampleIds[0];
+        const variants =
+          parsed.variantsBySample.get(sampleId ?? SITES_ONLY_SAMPLE) ?? [];
+        res.json({
+          ...(await this.analyzeSample(
+            drug,
+            mode,
+            variants,
+            parsed.build,
+            patient,
+            sampleId,
+          )),
+          drug_resolution: resolution,
+          data_source: dataSource,
+        });
+        return;
+      }
+
+      // Multi-sample VCF: one analysis per sample, keyed by sample ID.
+      const results: Record<string, AnalysisResponse> = {};
+      for (const sampleId of parsed.sampleIds) {
+        const variants = parsed.variantsBySample.get(sampleId) ?? [];
+        results[sampleId] = await this.analyzeSample(
+          drug,
+          mode,
+          variants,
+          parsed.build,
+          patient,
+          sampleId,
+        );
+      }
 
-      const variants = vcfService.parseVcf(vcfContent);
+      res.json({
+        drug,
+        drug_resolution: resolution,
+        timestamp: new Date().toISOString(),
+        mode: mode,
+        data_source: dataSource,
+        sample_count: parsed.sampleIds.length,
+        samples: parsed.sampleIds,
+        results,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    } finally {
+      await this.cleanupUploads(req);
+    }
+  }
 
-      // 3. Generate Cache Signature
-      // Signature = SHA256(sorted(rsids))
-      const rsIds = variants.map((v) => v.rsId).filter((id) => !!id);
-      const signature = cacheService.generateSignature(rsIds);
+  /**
+   * Multi-drug panel: the upload is parsed once and every requested drug is
+   * evaluated against the same calls. `drugs` is a list or "all" (default).
+   */
+  public async panel(req: Request, res: Response): Promise<void> {
+    try {
+      const file = this.getUpload(req, "file");
+      const indexFile = this.getUpload(req, "index");
+      const mode = (req.body.mode as AnalysisMode) || "patient";
 
-      // Cache Key includes MODE to separate patient/expert explanations
-      const cacheKey = `${signature}:${drug.toUpperCase()}:${mode}`;
+      if (!file) {
+        res.status(400).json({ error: "No VCF file provided." });
+        return;
+      }
 
-      // 4. Check Cache (Level 1)
-      let cachedResult = cacheService.get(cacheKey);
+      const { drugs, resolutions } = this.parsePanelDrugs(req.body.drugs);
+      const patient = this.parsePatientCovariates(req.body);
+      const loaded = await this.loadGenotypes(req, file, indexFile);
+      if (!loaded) {
+        res.status(500).json({ error: "File upload error." });
+        return;
+      }
+      const { parsed, dataSource } = loaded;
 
-      // Check if cached result has a valid explanation. If it was an error message, ignore cache.
-      if (
-        cachedResult &&
-        cachedResult.llm_generated_explanation?.summary &&
-        !cachedResult.llm_generated_explanation.summary.includes(
-          "temporarily unavailable",
-        )
-      ) {
-        // Return cached JSON (re-randomize confidence so it varies per request)
+      if (parsed.sampleCount <= 1) {
+        const sampleId = parsed.sampleIds[0];
+        const variants =
+          parsed.variantsBySample.get(sampleId ?? SITES_ONLY_SAMPLE) ?? [];
         res.json({
-          ...cachedResult,
-          risk_assessment: {
-            ...cachedResult.risk_assessment,
-            confidence_score: 0.9 + Math.random() * 0.05,
-          },
           timestamp: new Date().toISOString(),
-          cache_status: "HIT",
+          mode: mode,
+          data_source: dataSource,
+          drugs,
+          drug_resolution: resolutions,
+          ...(await this.analyzePanel(
+            drugs,
+            mode,
+            variants,
+            parsed.build,
+            patient,
+            sampleId,
+          )),
         });
         return;
       }
 
-      // 5. Evaluate Rule Engine
-      const result = ruleEngine.evaluate(drug, variants);
+      // Samples run one after another; each sample's drugs run concurrently.
+      const results: Record<string, PanelResponse> = {};
+      for (const sampleId of parsed.sampleIds) {
+        const variants = parsed.variantsBySample.get(sampleId) ?? [];
+        results[sampleId] = await this.analyzePanel(
+          drugs,
+          mode,
+          variants,
+          parsed.build,
+          patient,
+          sampleId,
+        );
+      }
+
+      res.json({
+        timestamp: new Date().toISOString(),
+        mode: mode,
+        data_source: dataSource,
+        drugs,
+        drug_resolution: resolutions,
+        sample_count: parsed.sampleIds.length,
+        samples: parsed.sampleIds,
+        results,
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    } finally {
+      await this.cleanupUploads(req);
+    }
+  }
+
+  /**
+   * Runs the rule engine and LLM explanation for one sample's variants.
+   */
+  private async analyzeSample(
+    drug: string,
+    mode: AnalysisMode,
+    variants: ParsedVariant[],
+    build: GenomeBuild,
+    patient: PatientCovariates,
+    sampleId?: string,
+  ): Promise<AnalysisResponse> {
+    // 3. Split off low-quality calls; they are reported but never used
+    // for phenotype calling.
+    const quality = qualityService.assess(variants);
 
-      // 6. Build Context & Call LLM
-      let llmExplanation = "Explanation temporarily unavailable.";
+    // 4. Evaluate Rule Engine
+    // Cheap and deterministic, so it runs on every request; the cache below
+    // only saves the LLM call. Dose estimates depend on request covariates
+    // that are not part of the cache key, so they are never cached.
+    const result = ruleEngine.evaluate(
+      drug,
+      quality.passed,
+      build,
+      patient.medications,
+    );
+    const doseEstimate =
+      drug.toUpperCase() === "WARFARIN"
+        ? warfarinDosingService.estimate(result.gene_results ?? [], patient)
+        : undefined;
+
+    // 5. Generate Cache Signature
+    // Signature = SHA256(sorted(variant ids)); see variantId.
+    const signature = cacheService.generateSignature(
+      quality.passed.map((v) => this.variantId(v)),
+    );
+
+    // Cache Key includes MODE to separate patient/expert explanations, the
+    // knowledge base hash so an explanation never outlives the rules it explains,
+    // and the medications acting on the drug's genes: the phenoconversion
+    // reasoning names them even when the phenotype does not change.
+    const perpetrators = (result.gene_results ?? [])
+      .flatMap((g) =>
+        (g.phenoconversion?.perpetrators ?? []).map(
+          (p) => `${g.gene}=${p.drug}/${p.effect}`,
+        ),
+      )
+      .sort()
+      .join(",");
+    const cacheKey = `${signature}:${drug.toUpperCase()}:${mode}:${result.knowledge_base_hash}:${perpetrators}`;
+
+    // 6. Check Cache (Level 1)
+    // Only the LLM explanation is cached; everything else in the response is
+    // rebuilt from this request's rule result, so the two always agree.
+    const cachedExplanation: LlmExplanation | undefined =
+      cacheService.get(cacheKey);
+
+    // 7. Build Context & Call LLM
+    let llmExplanation = "Explanation temporarily unavailable.";
+    if (!cachedExplanation) {
       try {
         const context = contextService.buildContext(drug, result, mode);
         llmExplanation = await llmService.generateExplanation(context);
@@ -94,54 +434,417 @@ export class AnalyzeController {
         // Fallback already set
       }
 
-      // 7. Build Response
-      const response = {
-        patient_id: randomUUID(), // Generate new ID for session
+      // Store in Cache ONLY if explanation is valid
+      if (!llmExplanation.includes("temporarily unavailable")) {
+        cacheService.set(cacheKey, { summary: llmExplanation });
+      }
+    }
+
+    // 8. Build Response
+    const response: AnalysisResponse = {
+      patient_id: randomUUID(), // Generate new ID for session
+      sample_id: sampleId,
+      drug: drug.toUpperCase(),
+      timestamp: new Date().toISOString(),
+      mode: mode,
+      risk_assessment: this.riskAssessment(result),
+      pharmacogenomic_profile: {
+        gene: result.gene,
+        phenotype: result.phenotype,
+        genotype_phenotype: result.genotype_phenotype,
+        phenoconversion: result.phenoconversion ?? null,
+        detected_variant: result.detected_variant,
+        diplotype: result.diplotype,
+        activity_score: result.activity_score,
+        phased: result.phased,
+        copy_number: result.copy_number,
+        diplotype_candidates: result.diplotype_candidates,
+        zygosity: result.zygosity,
+        callability: result.callability,
+        gene_results: result.gene_results,
+        total_variants_found: variants.length,
+        signature_hash: signature,
+      },
+      clinical_recommendation: result.recommendation,
+      provenance: this.provenance(result),
+      dose_estimate: doseEstimate,
+      llm_generated_explanation: cachedExplanation ?? {
+        summary: llmExplanation,
+      },
+      explainability_tree: {
         drug: drug.toUpperCase(),
-        timestamp: new Date().toISOString(),
-        mode: mode,
-        risk_assessment: {
-          level: result.risk_label,
-          confidence_score: result.confidence_score || 0.5,
-        },
-        pharmacogenomic_profile: {
-          gene: result.gene,
-          phenotype: result.phenotype,
-          detected_variant: result.detected_variant,
-          total_variants_found: variants.length,
-          signature_hash: signature,
-        },
-        clinical_recommendation: result.recommendation,
-        llm_generated_explanation: {
-          summary: llmExplanation,
-        },
-        explainability_tree: {
-          drug: drug.toUpperCase(),
-          gene: result.gene,
-          variant: result.detected_variant || "None",
-          phenotype: result.phenotype,
-          risk: result.risk_label,
-          recommendation: result.recommendation,
-        },
-        genomic_signature_id: signature,
-        quality_metrics: {
-          // Placeholder metrics
-          vcf_quality: "PASS",
-          genotype_completeness: variants.length > 0 ? "High" : "Low",
+        gene: result.gene,
+        variant: result.detected_variant || "None",
+        diplotype: result.diplotype,
+        activity_score: result.activity_score,
+        genotype_phenotype: result.genotype_phenotype,
+        phenoconversion: (result.gene_results ?? []).flatMap((g) =>
+          g.phenoconversion ? [g.phenoconversion.reason] : [],
+        ),
+        phenotype: result.phenotype,
+        callability: result.callability?.status,
+        risk: result.risk_label,
+        rule: result.matched_rule,
+        recommendation: result.recommendation,
+      },
+      genomic_signature_id: signature,
+      quality_metrics: quality.metrics,
+      excluded_calls: quality.excluded,
+      cache_status: cachedExplanation ? "HIT" : "MISS",
+    };
+
+    return response;
+  }
+
+  /**
+   * A call's identity in the cache signature: rsID, or CHROM:POS:REF:ALT when
+   * there is none, plus the genotype so 0/1 and 1/1 calls differ. Structural
+   * variants add their span and copy number (a CYP2D6 <DUP> with CN=3 and
+   * CN=4 are different calls), and reference blocks the END they cover.
+   */
+  private variantId(v: ParsedVariant): string {
+    const parts = [
+      v.rsId || `${v.chromosome}:${v.position}:${v.ref}:${v.alt}`,
+    ];
+    if (v.structural) {
+      parts.push(
+        `END=${v.structural.end}`,
+        `SVLEN=${v.info["SVLEN"] ?? "."}`,
+        `CN=${v.sampleFields?.["CN"] ?? v.structural.copyNumber ?? "."}`,
+      );
+    }
+    if (v.referenceBlock) parts.push(`END=${v.referenceBlock.end}`);
+    if (v.genotype) parts.push(v.genotype.raw);
+    return parts.join(":");
+  }
+
+  private riskAssessment(result: Recommendation): RiskAssessment {
+    return {
+      level: result.risk_label,
+      severity: result.severity,
+      evidence_level: result.evidence_level ?? null,
+      confidence_score: result.confidence_score ?? 0.5,
+      confidence_breakdown: result.confidence_breakdown,
+    };
+  }
+
+  /**
+   * Guideline behind the matched rule (null fields when no rule matched) and
+   * the knowledge base version, so a report can be traced to its rules.
+   */
+  private provenance(result: Recommendation): ProvenanceReport {
+    const rule = result.provenance;
+    return {
+      rule: result.matched_rule ?? null,
+      source: rule?.source ?? null,
+      guideline: rule?.guideline ?? null,
+      version: rule?.version ?? null,
+      published: rule?.published ?? null,
+      classification: result.evidence_level ?? null,
+      reference: rule?.reference ?? null,
+      knowledge_base_hash: result.knowledge_base_hash,
+    };
+  }
+
+  /**
+   * Runs every panel drug for one sample. Each drug makes its own LLM call,
+   * so at most PANEL_CONCURRENCY of them are in flight at once.
+   */
+  private async analyzePanel(
+    drugs: string[],
+    mode: AnalysisMode,
+    variants: ParsedVariant[],
+    build: GenomeBuild,
+    patient: PatientCovariates,
+    sampleId?: string,
+  ): Promise<PanelResponse> {
+    const results = await mapWithConcurrency(
+      drugs,
+      PANEL_CONCURRENCY,
+      (drug) =>
+        this.analyzeSample(drug, mode, variants, build, patient, sampleId),
+    );
+    return {
+      sample_id: sampleId,
+      summary: this.summarizePanel(results),
+      results,
+    };
+  }
+
+  /**
+   * Actionable findings are results whose matched rule is above "low"
+   * severity, most severe first.
+   */
+  private summarizePanel(results: AnalysisResponse[]): PanelSummary {
+    const actionable = results
+      .filter((r) => ACTIONABLE_SEVERITIES.includes(r.risk_assessment.severity))
+      .sort(
+        (a, b) =>
+          ACTIONABLE_SEVERITIES.indexOf(a.risk_assessment.severity) -
+          ACTIONABLE_SEVERITIES.indexOf(b.risk_assessment.severity),
+      )
+      .map((r) => ({
+        drug: r.drug,
+        gene: r.pharmacogenomic_profile.gene,
+        diplotype: r.pharmacogenomic_profile.diplotype,
+        phenotype: r.pharmacogenomic_profile.phenotype,
+        risk_level: r.risk_assessment.level,
+        severity: r.risk_assessment.severity,
+        recommendation: r.clinical_recommendation,
+      }));
+
+    return {
+      drugs_analyzed: results.length,
+      actionable_count: actionable.length,
+      actionable,
+      no_result: results
+        .filter((r) => r.risk_assessment.level === "Unknown")
+        .map((r) => r.drug),
+    };
+  }
+
+  /**
+   * Parse the upload into per-sample calls. Returns undefined when multer
+   * produced neither a temp file nor a buffer.
+   */
+  private async loadGenotypes(
+    req: Request,
+    file: Express.Multer.File,
+    indexFile: Express.Multer.File | undefined,
+  ): Promise<{ parsed: ParsedVcf; dataSource: DataSource } | undefined> {
+    // Uploads are written to disk by multer and streamed through the parser
+    // (gzip/BGZF detected by magic bytes). Memory storage (req.file.buffer)
+    // is still supported for small in-process uploads.
+    const parseOptions = {
+      samples: this.parseList(req.body.samples, "samples"),
+      build: this.parseGenomeBuild(req.body.genome_build),
+    };
+
+    const arrayFormat = await this.detectArrayFormat(file);
+
+    if (arrayFormat) {
+      // 23andMe / AncestryDNA raw data: only catalogued pharmacogene SNPs.
+      const imported = await genotypeArrayService.parse(
+        file.path
+          ? fs.createReadStream(file.path)
+          : Readable.from([file.buffer]),
+        arrayFormat,
+        parseOptions.build,
+      );
+      return {
+        parsed: imported.parsed,
+        dataSource: {
+          type: "genotyping_array",
+          format: arrayFormat,
+          genome_build: imported.parsed.build,
+          notice:
+            "Consumer genotyping arrays cover only a handful of pharmacogene SNPs and cannot detect gene deletions, duplications or rare variants. A normal result here does not rule out an actionable genotype; confirm with clinical-grade testing before changing therapy.",
+          strand_flipped: imported.strandFlipped,
+          strand_ambiguous: imported.strandAmbiguous,
+          unmatched_alleles: imported.unmatched,
         },
-        cache_status: "MISS",
       };
+    }
 
-      // 8. Store in Cache ONLY if explanation is valid
-      if (!llmExplanation.includes("temporarily unavailable")) {
-        cacheService.set(cacheKey, response);
+    let parsed: ParsedVcf;
+    if (indexFile && file.path) {
+      // Indexed bgzipped VCF: seek straight to the pharmacogene regions.
+      const index = tabixService.parseIndex(
+        await fs.promises.readFile(indexFile.path),
+      );
+      parsed = await vcfService.parseVcfIndexed(file.path, index, parseOptions);
+    } else if (file.path) {
+      parsed = await vcfService.parseVcfFile(file.path, parseOptions);
+    } else if (file.buffer) {
+      parsed = vcfService.parseVcfSamples(
+        vcfService.decodeUpload(file.buffer),
+        parseOptions,
+      );
+    } else {
+      return undefined;
+    }
+    return { parsed, dataSource: { type: "vcf" } };
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof VcfParseError || error instanceof TabixIndexError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof InvalidFieldError) {
+      res.status(400).json({ error: error.message, field: error.field });
+      return;
+    }
+    if (error instanceof UnknownDrugError) {
+      res
+        .status(400)
+        .json({ error: error.message, suggestions: error.suggestions });
+      return;
+    }
+    console.error("Analysis error:", error);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+
+  /**
+   * Temp files from multer disk storage are ours to clean up.
+   */
+  private async cleanupUploads(req: Request): Promise<void> {
+    for (const upload of [
+      this.getUpload(req, "file"),
+      this.getUpload(req, "index"),
+    ]) {
+      if (upload?.path) {
+        await fs.promises.unlink(upload.path).catch(() => undefined);
       }
+    }
+  }
 
-      res.json(response);
-    } catch (error) {
-      console.error("Analysis error:", error);
-      res.status(500).json({ error: "Internal Server Error" });
+  /**
+   * Multer `fields()` populates req.files; `single()` populates req.file.
+   */
+  private getUpload(
+    req: Request,
+    field: string,
+  ): Express.Multer.File | undefined {
+    const files = req.files as
+      | Record<string, Express.Multer.File[]>
+      | undefined;
+    return files?.[field]?.[0] ?? (field === "file" ? req.file : undefined);
+  }
+
+  /**
+   * Recognise a 23andMe / AncestryDNA raw data export from the head of an
+   * upload. Anything else (including gzip) goes to the VCF parser.
+   */
+  private async detectArrayFormat(
+    file: Express.Multer.File,
+  ): Promise<ArrayFormat | undefined> {
+    let head: Buffer;
+    if (file.path) {
+      const handle = await fs.promises.open(file.path, "r");
+      try {
+        head = Buffer.alloc(SNIFF_BYTES);
+        const { bytesRead } = await handle.read(head, 0, SNIFF_BYTES, 0);
+        head = head.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } else if (file.buffer) {
+      head = file.buffer.subarray(0, SNIFF_BYTES);
+    } else {
+      return undefined;
+    }
+
+    if (head[0] === 0x1f && head[1] === 0x8b) return undefined;
+    return genotypeArrayService.detectFormat(head.toString("utf-8"));
+  }
+
+  /**
+   * Panel drug list: omitted or "all" selects every supported drug. Names are
+   * resolved through the drug dictionary; unknown names are rejected (with
+   * suggestions) rather than reported as "Unknown" results.
+   */
+  private parsePanelDrugs(raw: unknown): {
+    drugs: string[];
+    resolutions: DrugResolution[];
+  } {
+    const requested = this.parseList(raw, "drugs");
+    if (
+      !requested ||
+      (requested.length === 1 && requested[0]!.toUpperCase() === "ALL")
+    ) {
+      return { drugs: ruleEngine.supportedDrugs(), resolutions: [] };
+    }
+
+    const resolutions = drugDictionaryService.resolveSupported(requested);
+    return {
+      drugs: [...new Set(resolutions.map((r) => r.drug))],
+      resolutions,
+    };
+  }
+
+  /**
+   * Genome build for coordinate-based lookups. When omitted, the parser infers
+   * it from the VCF header and falls back to GRCh38.
+   */
+  private parseGenomeBuild(raw: unknown): GenomeBuild | undefined {
+    if (raw === undefined || raw === "") return undefined;
+    const build = geneRegionService.parseBuild(raw);
+    if (!build) {
+      throw new InvalidFieldError(
+        "genome_build",
+        `Unsupported genome_build "${raw}". Use GRCh37 or GRCh38.`,
+      );
+    }
+    return build;
+  }
+
+  /**
+   * Optional clinical covariates (warfarin dosing, phenoconversion). Numbers
+   * must be positive; medication names the drug dictionary knows are replaced
+   * by the canonical drug, so brand names count too.
+   */
+  private parsePatientCovariates(
+    body: Record<string, unknown>,
+  ): PatientCovariates {
+    const positive = (field: string): number | undefined => {
+      const raw = body[field];
+      if (raw === undefined || raw === "") return undefined;
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new InvalidFieldError(
+          field,
+          `Invalid ${field} "${raw}": must be a positive number of ${COVARIATE_UNITS[field]}.`,
+        );
+      }
+      return value;
+    };
+    if (body.race !== undefined && typeof body.race !== "string") {
+      throw new InvalidFieldError("race", "Invalid race: give a single value.");
     }
+
+    return {
+      age: positive("age"),
+      heightCm: positive("height_cm"),
+      weightKg: positive("weight_kg"),
+      race: typeof body.race === "string" && body.race ? body.race : undefined,
+      medications: (
+        this.parseList(
+          body.concomitant_medications,
+          "concomitant_medications",
+        ) ?? []
+      ).map((m) =>
+        (drugDictionaryService.resolve(m)?.drug ?? m).toLowerCase(),
+      ),
+    };
+  }
+
+  /**
+   * Accepts a list field (`samples`, `concomitant_medications`) as a repeated
+   * form field, a JSON array or a comma-separated list.
+   */
+  private parseList(raw: unknown, field: string): string[] | undefined {
+    if (!raw) return undefined;
+
+    let values: unknown[];
+    if (Array.isArray(raw)) {
+      values = raw;
+    } else if (typeof raw === "string" && raw.trim().startsWith("[")) {
+      try {
+        const decoded = JSON.parse(raw);
+        values = Array.isArray(decoded) ? decoded : [raw];
+      } catch {
+        throw new InvalidFieldError(
+          field,
+          `Invalid ${field} list: not a valid JSON array.`,
+        );
+      }
+    } else {
+      values = String(raw).split(",");
+    }
+
+    const ids = values.map((v) => String(v).trim()).filter((v) => !!v);
+    return ids.length > 0 ? ids : undefined;
   }
 }
 
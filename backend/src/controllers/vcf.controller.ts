@@ -0,0 +1,41 @@
+/** @format */
+
+import type { Request, Response } from "express";
+import fs from "fs";
+import { vcfService, VcfParseError } from "../services/vcf.service";
+
+export class VcfController {
+  /**
+   * Returns a structural validation report for an uploaded VCF without
+   * running an analysis, so users can fix files up front.
+   */
+  public async validate(req: Request, res: Response): Promise<void> {
+    const file = req.file;
+
+    try {
+      if (!file) {
+        res.status(400).json({ error: "No VCF file provided." });
+        return;
+      }
+
+      const report = file.path
+        ? await vcfService.validateVcfFile(file.path)
+        : vcfService.validateVcf(vcfService.decodeUpload(file.buffer));
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof VcfParseError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error("Validation error:", error);
+      res.status(500).json({ error: "Internal Server Error" });
+    } finally {
+      if (file?.path) {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+      }
+    }
+  }
+}
+
+export const vcfController = new VcfController();
@@ -3,6 +3,8 @@
 import express from "express";
 import { config } from "./config/env";
 import analyzeRouter from "./routes/analyze.route";
+import vcfRouter from "./routes/vcf.route";
+import { knowledgeBaseService } from "./services/knowledgeBase.service";
 import cors from "cors";
 
 const app = express();
@@ -18,9 +20,19 @@ app.use(express.urlencoded({ extended: true }));
 
 // Routes
 app.use("/api", analyzeRouter);
+app.use("/api", vcfRouter);
 
 const { PORT } = config;
 
+// Refuse to start on invalid rule data; later edits are validated on reload.
+try {
+  knowledgeBaseService.load();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+knowledgeBaseService.watch();
+
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
 });
@@ -1,16 +1,27 @@
 import { Router } from 'express';
 import { analyzeController } from '../controllers/analyze.controller';
 import multer from 'multer';
+import os from 'os';
 
 const router = Router();
 
-// Configure Multer for memory storage (buffer access)
+// Configure Multer for disk storage: uploads are streamed to a temp file and
+// parsed line by line, so whole-genome VCFs never sit in memory.
 const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
+    dest: os.tmpdir(),
+    limits: { fileSize: 20 * 1024 * 1024 * 1024 } // 20GB limit (gzipped 30x WGS VCFs)
 });
 
+// 'file' is the VCF; 'index' is an optional .tbi/.csi for a bgzipped VCF.
+const vcfUpload = upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'index', maxCount: 1 },
+]);
+
 // POST /api/analyze
-router.post('/analyze', upload.single('file'), analyzeController.analyze.bind(analyzeController));
+router.post('/analyze', vcfUpload, analyzeController.analyze.bind(analyzeController));
+
+// POST /api/panel (several drugs against one upload)
+router.post('/panel', vcfUpload, analyzeController.panel.bind(analyzeController));
 
 export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { vcfController } from '../controllers/vcf.controller';
+import multer from 'multer';
+import os from 'os';
+
+const router = Router();
+
+// Same disk-backed upload limits as /api/analyze: validation streams the file too.
+const upload = multer({
+    dest: os.tmpdir(),
+    limits: { fileSize: 20 * 1024 * 1024 * 1024 } // 20GB limit
+});
+
+// POST /api/vcf/validate
+router.post('/vcf/validate', upload.single('file'), vcfController.validate.bind(vcfController));
+
+export default router;
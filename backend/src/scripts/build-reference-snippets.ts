@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { geneRegionService, GENOME_BUILDS, type GenomeBuild } from '../services/geneRegion.service';
+
+// Extracts the pharmacogene regions from a local reference FASTA (with its .fai
+// index) into data/reference_snippets.json, used for indel left-normalisation.
+//
+// Usage: bun run src/scripts/build-reference-snippets.ts <GRCh37|GRCh38> <reference.fa>
+
+interface FaiEntry {
+    length: number;
+    offset: number;
+    lineBases: number;
+    lineWidth: number;
+}
+
+const OUTPUT = path.join(__dirname, '../data/reference_snippets.json');
+
+function readFai(fastaPath: string): Map<string, FaiEntry> {
+    const entries = new Map<string, FaiEntry>();
+    for (const line of fs.readFileSync(`${fastaPath}.fai`, 'utf-8').split('\n')) {
+        const [name, length, offset, lineBases, lineWidth] = line.split('\t');
+        if (!name || !length || !offset || !lineBases || !lineWidth) continue;
+        entries.set(name, {
+            length: Number(length),
+            offset: Number(offset),
+            lineBases: Number(lineBases),
+            lineWidth: Number(lineWidth),
+        });
+    }
+    return entries;
+}
+
+function readSequence(fd: number, entry: FaiEntry, start: number, end: number): string {
+    // 0-based base offsets -> byte offsets, accounting for line breaks.
+    const byteOf = (base: number) =>
+        entry.offset + Math.floor(base / entry.lineBases) * entry.lineWidth + (base % entry.lineBases);
+
+    const from = byteOf(start - 1);
+    const to = byteOf(Math.min(end, entry.length) - 1) + 1;
+    const buffer = Buffer.alloc(to - from);
+    fs.readSync(fd, buffer, 0, buffer.length, from);
+    return buffer.toString('latin1').replace(/\s/g, '').toUpperCase();
+}
+
+function main() {
+    const [buildArg, fastaPath] = process.argv.slice(2);
+    const build = geneRegionService.parseBuild(buildArg);
+
+    if (!build || !fastaPath) {
+        console.error('❌ Usage: build-reference-snippets.ts <GRCh37|GRCh38> <reference.fa>');
+        process.exit(1);
+    }
+
+    const fai = readFai(fastaPath);
+    const fd = fs.openSync(fastaPath, 'r');
+    const snippets = [];
+
+    try {
+        for (const region of geneRegionService.getRegions(build)) {
+            const entry = fai.get(region.chrom) ?? fai.get(`chr${region.chrom}`);
+            if (!entry) {
+                console.warn(`⚠️  ${region.gene}: contig ${region.chrom} not found in ${fastaPath}`);
+                continue;
+            }
+            const sequence = readSequence(fd, entry, region.start, region.end);
+            snippets.push({ chrom: region.chrom, start: region.start, sequence });
+            console.log(`✅ ${region.gene}: ${region.chrom}:${region.start}-${region.end} (${sequence.length} bp)`);
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    const existing: Record<GenomeBuild, unknown[]> = fs.existsSync(OUTPUT)
+        ? JSON.parse(fs.readFileSync(OUTPUT, 'utf-8'))
+        : Object.fromEntries(GENOME_BUILDS.map((b) => [b, []]));
+    existing[build] = snippets;
+
+    fs.writeFileSync(OUTPUT, JSON.stringify(existing) + '\n');
+    console.log(`💾 Wrote ${snippets.length} region(s) for ${build} to ${OUTPUT}`);
+}
+
+main();
@@ -0,0 +1,469 @@
+import fs from 'fs';
+import path from 'path';
+import type { EvidenceLevel } from '../services/confidence.service';
+import type { AlleleDefinition, AlleleFunction, GeneFunctionTable } from '../services/diplotype.service';
+import {
+    KnowledgeBaseError,
+    knowledgeBaseService,
+    type KnowledgeBase,
+    type KnowledgeBaseFile,
+} from '../services/knowledgeBase.service';
+import type { PhenotypeRule, RuleProvenance } from '../services/ruleEngine.service';
+
+// Imports CPIC allele-function, diplotype-to-phenotype and recommendation tables
+// into the rule knowledge base and prints what changes. The tables are TSV
+// exports of the guideline supplements or JSON rows from the CPIC API.
+//
+// Usage: bun run src/scripts/import-cpic.ts <dir> [--write] [--replace]
+//
+// <dir> holds <GENE>.allele_functions.{tsv,json}, <GENE>.diplotype_phenotypes.{tsv,json}
+// and <name>.recommendations.{tsv,json}, each with a <name>.guideline.json giving the
+// guideline's provenance. Without --write nothing is saved. Imported entries are
+// merged into the current ones, so a partial table (one population, some
+// phenotypes) leaves the rest in place; --replace drops whatever the tables omit.
+
+type Row = Record<string, unknown>;
+
+type TableKind = 'allele_functions' | 'diplotype_phenotypes' | 'recommendations';
+
+const TABLE_FILE = /^(.+)\.(allele_functions|diplotype_phenotypes|recommendations)\.(tsv|json)$/;
+
+// Header cell that marks the header row of each TSV table; rows above it are titles.
+const HEADERS: Record<TableKind, RegExp> = {
+    allele_functions: /^allele$/i,
+    diplotype_phenotypes: /diplotype$/i,
+    recommendations: /phenotype$/i,
+};
+
+const FUNCTIONS: Record<string, AlleleFunction> = {
+    'normal function': 'normal',
+    'decreased function': 'decreased',
+    'no function': 'no_function',
+    'increased function': 'increased',
+    'uncertain function': 'uncertain',
+    'unknown function': 'uncertain',
+};
+
+// CPIC phenotype terms -> the codes used in phenotype_rules.json keys.
+const PHENOTYPE_CODES: Record<string, string> = {
+    'poor metabolizer': 'PM',
+    'intermediate metabolizer': 'IM',
+    'normal metabolizer': 'NM',
+    'rapid metabolizer': 'RM',
+    'ultrarapid metabolizer': 'UM',
+    'normal function': 'NF',
+    'decreased function': 'LF',
+    'poor function': 'PF',
+    any: '*',
+};
+
+// Results no rule can key on; their rows are skipped.
+const UNCALLED_PHENOTYPES = new Set(['', 'indeterminate', 'n/a', 'no result']);
+
+const EVIDENCE_LEVELS: Record<string, EvidenceLevel> = {
+    strong: 'strong',
+    moderate: 'moderate',
+    optional: 'optional',
+};
+
+function readTable(file: string, kind: TableKind): Row[] {
+    const text = fs.readFileSync(file, 'utf-8');
+    if (file.endsWith('.json')) {
+        const json: unknown = JSON.parse(text);
+        if (!Array.isArray(json)) throw new Error(`${path.basename(file)}: expected an array of rows`);
+        return json;
+    }
+
+    const lines = text.split(/\r?\n/);
+    const start = lines.findIndex((l) => l.split('\t').some((cell) => HEADERS[kind].test(cell.trim())));
+    if (start === -1) throw new Error(`${path.basename(file)}: no header row (expected a column matching ${HEADERS[kind]})`);
+
+    const columns = lines[start]!.split('\t').map((c) => c.trim());
+    return lines
+        .slice(start + 1)
+        .filter((l) => l.trim())
+        .map((l) => {
+            const cells = l.split('\t');
+            return Object.fromEntries(columns.map((c, i) => [c, cells[i]?.trim() ?? '']));
+        });
+}
+
+/** Value of the first column matching one of the patterns, tried in order. */
+function field(row: Row, ...patterns: RegExp[]): string {
+    for (const pattern of patterns) {
+        const key = Object.keys(row).find((k) => pattern.test(k));
+        if (key === undefined) continue;
+        const value = row[key];
+        // CPIC API rows embed related records, e.g. "drug": { "name": "codeine" }.
+        if (value && typeof value === 'object' && 'name' in value) return String(value.name).trim();
+        return value === null || value === undefined ? '' : String(value).trim();
+    }
+    return '';
+}
+
+/** Phenotype code, null for results no rule can key on, undefined for unknown terms. */
+function phenotypeCode(term: string): string | null | undefined {
+    const normalized = term.toLowerCase();
+    if (UNCALLED_PHENOTYPES.has(normalized)) return null;
+    if (/^[A-Z]{2}$/.test(term)) return term;
+    return PHENOTYPE_CODES[normalized];
+}
+
+function splitCopies(name: string): { allele: string; copies: number } {
+    const match = /^(.+)x(\d+)$/.exec(name);
+    return match ? { allele: match[1]!, copies: Number(match[2]) } : { allele: name, copies: 1 };
+}
+
+function importAlleles(gene: string, rows: Row[], issues: string[]): Record<string, AlleleDefinition> {
+    const alleles: Record<string, AlleleDefinition> = {};
+    for (const row of rows) {
+        const allele = field(row, /^allele$/i, /^name$/i);
+        if (!allele) continue;
+
+        const status = field(row, /clinical ?functional ?status/i, /^function$/i).toLowerCase();
+        const fn = FUNCTIONS[status];
+        if (!fn) {
+            issues.push(`${gene} ${allele}: unknown allele function "${status}"`);
+            continue;
+        }
+        const activity = Number.parseFloat(field(row, /^activity ?value$/i));
+        alleles[allele] = Number.isNaN(activity) ? { function: fn } : { function: fn, activity };
+    }
+    return alleles;
+}
+
+/**
+ * Genes whose alleles carry activity values are scored by activity: each
+ * phenotype's score range is taken from the diplotypes listed for it, and the
+ * highest range is open-ended (more gene copies only raise the score).
+ * Other genes get a function-pair table. Alleles, function pairs and phenotype
+ * ranges of `existing` that the tables do not list are kept.
+ */
+function importPhenotypes(
+    gene: string,
+    imported: Record<string, AlleleDefinition>,
+    rows: Row[],
+    existing: GeneFunctionTable | undefined,
+    issues: string[],
+): GeneFunctionTable {
+    const alleles = { ...existing?.alleles, ...imported };
+    const byActivity = Object.values(alleles).some((a) => a.activity !== undefined);
+    const method = byActivity ? 'activity_score' : 'function';
+    if (existing && existing.method !== method) {
+        issues.push(`${gene}: the tables give a ${method} table, the current one is ${existing.method}; use --replace`);
+    }
+    const ranges = new Map<string, { min: number; max: number }>();
+    const pairs: Record<string, string> = {};
+
+    for (const row of rows) {
+        const diplotype = field(row, /^(\S+ )?diplotype$/i);
+        const term = field(row, /phenotype summary/i, /^generesult$/i, /^phenotype$/i);
+        const code = phenotypeCode(term);
+        if (!diplotype || code === null) continue;
+        if (code === undefined) {
+            issues.push(`${gene} ${diplotype}: unknown phenotype "${term}"`);
+            continue;
+        }
+
+        const haplotypes = diplotype.split('/').map(splitCopies);
+        const unknown = haplotypes.filter((h) => !alleles[h.allele]).map((h) => h.allele);
+        if (haplotypes.length !== 2 || unknown.length > 0) {
+            issues.push(`${gene} ${diplotype}: alleles missing from the allele function table: ${unknown.join(', ')}`);
+            continue;
+        }
+
+        if (byActivity) {
+            let score = Number.parseFloat(field(row, /^(total ?)?activity ?score$/i));
+            if (Number.isNaN(score)) {
+                score = haplotypes.reduce((sum, h) => sum + (alleles[h.allele]!.activity ?? Number.NaN) * h.copies, 0);
+            }
+            if (Number.isNaN(score)) continue;
+
+            const range = ranges.get(code);
+            ranges.set(code, { min: Math.min(range?.min ?? score, score), max: Math.max(range?.max ?? score, score) });
+            continue;
+        }
+
+        const functions = haplotypes.map((h) => alleles[h.allele]!.function);
+        if (functions.includes('uncertain')) continue;
+        const key = functions.sort().join('/');
+        if (pairs[key] && pairs[key] !== code) {
+            issues.push(`${gene} ${diplotype}: ${key} is both ${pairs[key]} and ${code}`);
+        }
+        pairs[key] = code;
+    }
+
+    if (!byActivity) {
+        return { method: 'function', alleles, function_phenotypes: { ...existing?.function_phenotypes, ...pairs } };
+    }
+
+    for (const { phenotype, min, max } of existing?.activity_phenotypes ?? []) {
+        if (!ranges.has(phenotype)) ranges.set(phenotype, { min, max: max ?? Number.POSITIVE_INFINITY });
+    }
+    const sorted = [...ranges].sort(([, a], [, b]) => a.min - b.min);
+    sorted.forEach(([code, range], i) => {
+        const previous = sorted[i - 1];
+        if (previous && range.min <= previous[1].max) {
+            issues.push(`${gene}: activity score ranges of ${previous[0]} and ${code} overlap`);
+        }
+    });
+    return {
+        method: 'activity_score',
+        alleles,
+        activity_phenotypes: sorted.map(([phenotype, { min, max }], i) =>
+            i === sorted.length - 1 ? { phenotype, min } : { phenotype, min, max },
+        ),
+    };
+}
+
+/**
+ * Merge the imported rules into each drug's rules (replace them with `replace`),
+ * a rule with the same key being overwritten. CPIC tables carry no risk
+ * label or severity; they come from Risk Label / Severity columns, else from
+ * the current rule with the same key. Every rule gets the guideline's provenance.
+ */
+function importRecommendations(
+    rows: Row[],
+    defaultDrug: string,
+    provenance: RuleProvenance,
+    current: KnowledgeBase,
+    next: KnowledgeBase,
+    replace: boolean,
+    issues: string[],
+): void {
+    const drugs = new Map<string, { genes: string[]; rows: { terms: [string, string][]; row: Row }[] }>();
+
+    for (const row of rows) {
+        const classification = field(row, /classification/i).toLowerCase();
+        if (classification === 'no recommendation') continue;
+
+        const drug = (field(row, /^drug$/i, /^drug ?name$/i) || defaultDrug).toUpperCase();
+        const phenotypes =
+            row.phenotypes && typeof row.phenotypes === 'object'
+                ? Object.entries(row.phenotypes).map(([gene, term]) => [gene, String(term)])
+                : Object.keys(row).flatMap((column) => {
+                      const gene = /^(\S+) phenotype$/i.exec(column)?.[1];
+                      return gene ? [[gene, field(row, new RegExp(`^${gene} phenotype$`, 'i'))]] : [];
+                  });
+
+        const terms: [string, string][] = [];
+        let skip = false;
+        for (const [gene, term] of phenotypes) {
+            const code = phenotypeCode(term!);
+            if (code === undefined) issues.push(`${drug}: unknown ${gene} phenotype "${term}"`);
+            if (!code) skip = true;
+            else terms.push([gene!.toUpperCase(), code]);
+        }
+        if (skip || terms.length === 0) continue;
+
+        const entry = drugs.get(drug) ?? { genes: [...(current.drugGeneMap[drug] ?? [])], rows: [] };
+        for (const [gene] of terms) if (!entry.genes.includes(gene)) entry.genes.push(gene);
+        entry.rows.push({ terms, row });
+        drugs.set(drug, entry);
+    }
+
+    for (const [drug, { genes, rows: drugRows }] of drugs) {
+        const rules: Record<string, PhenotypeRule> = {};
+        for (const { terms, row } of drugRows) {
+            terms.sort(([a], [b]) => genes.indexOf(a) - genes.indexOf(b));
+            const key =
+                terms.length === 1 && terms[0]![0] === genes[0]
+                    ? terms[0]![1]
+                    : terms.map(([gene, code]) => `${gene}:${code}`).join('+');
+
+            const recommendation = field(row, /^(drug |therapeutic |dosing )?recommendations?$/i, /^drugrecommendation$/i);
+            const evidenceLevel = EVIDENCE_LEVELS[field(row, /classification/i).toLowerCase()];
+            const existing = current.phenotypeRules[drug]?.[key];
+            const riskLabel = field(row, /^risk[ _]?label$/i) || existing?.risk_label;
+            const severity = field(row, /^severity$/i) || existing?.severity;
+
+            if (!evidenceLevel) {
+                issues.push(`${drug} "${key}": unknown classification "${field(row, /classification/i)}"`);
+                continue;
+            }
+            if (!riskLabel || !severity) {
+                issues.push(`${drug} "${key}": no risk label or severity; add Risk Label and Severity columns`);
+                continue;
+            }
+            if (rules[key] && rules[key].recommendation !== recommendation) {
+                issues.push(`${drug} "${key}": conflicting recommendations; filter the table to one population`);
+                continue;
+            }
+            rules[key] = {
+                risk_label: riskLabel,
+                severity,
+                recommendation,
+                evidence_level: evidenceLevel,
+                provenance,
+            };
+        }
+        next.drugGeneMap[drug] = genes;
+        next.phenotypeRules[drug] = replace ? rules : { ...current.phenotypeRules[drug], ...rules };
+    }
+}
+
+const isPrimitive = (value: unknown) => value === null || typeof value !== 'object';
+
+// Longest indented one-line object the formatter writes.
+const INLINE_WIDTH = 100;
+
+/**
+ * JSON in the data files' layout: primitive arrays on one line, and short
+ * primitive objects below the second level too.
+ */
+function formatJson(value: unknown, depth = 0): string {
+    const pad = '    '.repeat(depth);
+    const inner = '    '.repeat(depth + 1);
+
+    if (Array.isArray(value)) {
+        if (value.every(isPrimitive)) return `[${value.map((v) => JSON.stringify(v)).join(', ')}]`;
+        return `[\n${value.map((v) => inner + formatJson(v, depth + 1)).join(',\n')}\n${pad}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value);
+        if (entries.length === 0) return '{}';
+        if (depth >= 3 && entries.every(([, v]) => isPrimitive(v))) {
+            const line = `{ ${entries.map(([k, v]) => `${JSON.stringify(k)}: ${JSON.stringify(v)}`).join(', ')} }`;
+            if (pad.length + line.length <= INLINE_WIDTH) return line;
+        }
+        return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${formatJson(v, depth + 1)}`).join(',\n')}\n${pad}}`;
+    }
+    return JSON.stringify(value);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Keep existing keys in their current order, so a rewritten file only shows real changes. */
+function preserveOrder(before: unknown, after: unknown): unknown {
+    if (!isObject(before) || !isObject(after)) return after;
+    const keys = [
+        ...Object.keys(before).filter((k) => k in after),
+        ...Object.keys(after).filter((k) => !(k in before)),
+    ];
+    return Object.fromEntries(keys.map((k) => [k, preserveOrder(before[k], after[k])]));
+}
+
+/** Leaf path -> JSON value, e.g. CYP2D6.alleles["*4"].function -> "no_function". */
+function flatten(value: unknown, prefix = '', out = new Map<string, string>()): Map<string, string> {
+    if (Array.isArray(value) && !value.every(isPrimitive)) {
+        value.forEach((v, i) => flatten(v, `${prefix}[${i}]`, out));
+    } else if (isObject(value)) {
+        for (const [k, v] of Object.entries(value)) {
+            const segment = /^[A-Za-z_][\w-]*$/.test(k) ? (prefix ? `.${k}` : k) : `[${JSON.stringify(k)}]`;
+            flatten(v, prefix + segment, out);
+        }
+    } else {
+        out.set(prefix, JSON.stringify(value));
+    }
+    return out;
+}
+
+function diff(before: unknown, after: unknown): string[] {
+    const old = flatten(before);
+    const updated = flatten(after);
+    const lines: string[] = [];
+
+    for (const [key, value] of updated) {
+        const previous = old.get(key);
+        if (previous === undefined) lines.push(`  + ${key}: ${value}`);
+        else if (previous !== value) lines.push(`  ~ ${key}: ${previous} → ${value}`);
+    }
+    for (const [key, value] of old) {
+        if (!updated.has(key)) lines.push(`  - ${key}: ${value}`);
+    }
+    return lines;
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    const write = args.includes('--write');
+    const replace = args.includes('--replace');
+    const dir = args.find((a) => !a.startsWith('--'));
+
+    if (!dir) {
+        console.error('❌ Usage: import-cpic.ts <dir> [--write] [--replace]');
+        process.exit(1);
+    }
+
+    const current = knowledgeBaseService.current();
+    const next = structuredClone(current);
+    const issues: string[] = [];
+
+    const tables: Record<TableKind, Map<string, Row[]>> = {
+        allele_functions: new Map(),
+        diplotype_phenotypes: new Map(),
+        recommendations: new Map(),
+    };
+    for (const file of fs.readdirSync(dir).sort()) {
+        const match = TABLE_FILE.exec(file);
+        if (!match) continue;
+        const kind = match[2] as TableKind;
+        const rows = readTable(path.join(dir, file), kind);
+        // Gene tables are keyed by gene; recommendation files by their name, the default drug.
+        tables[kind].set(kind === 'recommendations' ? match[1]! : match[1]!.toUpperCase(), rows);
+        console.log(`📥 ${file}: ${rows.length} row(s)`);
+    }
+
+    for (const gene of tables.diplotype_phenotypes.keys()) {
+        if (!tables.allele_functions.has(gene)) issues.push(`${gene}: diplotype table without an allele function table`);
+    }
+    for (const [gene, functionRows] of tables.allele_functions) {
+        const phenotypeRows = tables.diplotype_phenotypes.get(gene);
+        if (!phenotypeRows) {
+            issues.push(`${gene}: allele function table without a diplotype table`);
+            continue;
+        }
+        const alleles = importAlleles(gene, functionRows, issues);
+        const existing = replace ? undefined : current.alleleFunctions[gene];
+        next.alleleFunctions[gene] = importPhenotypes(gene, alleles, phenotypeRows, existing, issues);
+    }
+
+    for (const [name, rows] of tables.recommendations) {
+        // Checked against the rule schema with the rest of the import.
+        const guidelineFile = path.join(dir, `${name}.guideline.json`);
+        if (!fs.existsSync(guidelineFile)) {
+            issues.push(`${name}: missing ${name}.guideline.json (source, guideline, version, published, reference)`);
+            continue;
+        }
+        const provenance: RuleProvenance = JSON.parse(fs.readFileSync(guidelineFile, 'utf-8'));
+        importRecommendations(rows, name, provenance, current, next, replace, issues);
+    }
+
+    if (issues.length > 0) {
+        console.error(`❌ Import failed:\n  - ${issues.join('\n  - ')}`);
+        process.exit(1);
+    }
+
+    // The imported set must pass the same checks the server applies on reload.
+    try {
+        knowledgeBaseService.validate(next);
+    } catch (error) {
+        if (!(error instanceof KnowledgeBaseError)) throw error;
+        console.error(`❌ ${error.message}`);
+        process.exit(1);
+    }
+
+    const changed: KnowledgeBaseFile[] = [];
+    for (const key of knowledgeBaseService.dataFiles()) {
+        const lines = diff(current[key], next[key]);
+        if (lines.length === 0) continue;
+        changed.push(key);
+        console.log(`\n📄 ${path.basename(knowledgeBaseService.filePath(key))}\n${lines.join('\n')}`);
+    }
+
+    if (changed.length === 0) {
+        console.log('✅ The knowledge base already matches the CPIC tables.');
+        return;
+    }
+    if (!write) {
+        console.log(`\n🔎 ${changed.length} file(s) would change. Re-run with --write to save them.`);
+        return;
+    }
+    for (const key of changed) {
+        fs.writeFileSync(knowledgeBaseService.filePath(key), formatJson(preserveOrder(current[key], next[key])) + '\n');
+    }
+    console.log(`\n💾 Wrote ${changed.length} file(s).`);
+}
+
+main();
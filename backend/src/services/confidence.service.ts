@@ -0,0 +1,143 @@
+import type { DiplotypeCall } from './diplotype.service';
+import { qualityService } from './quality.service';
+
+/** CPIC-style strength of the recommendation behind a rule. */
+export type EvidenceLevel = 'strong' | 'moderate' | 'optional';
+
+export interface ConfidenceFactor {
+    factor: 'call_quality' | 'coverage' | 'phase' | 'evidence';
+    /** 0-1; the score is the product of all factor values. */
+    value: number;
+    detail: string;
+}
+
+export interface ConfidenceBreakdown {
+    score: number;
+    /** How the score was reached; factors is empty for fixed scores. */
+    basis: string;
+    factors: ConfidenceFactor[];
+}
+
+const EVIDENCE_WEIGHTS: Record<EvidenceLevel, number> = { strong: 0.95, moderate: 0.85, optional: 0.7 };
+// Phenotype called, but no rule covers it.
+const NO_RULE_WEIGHT = 0.7;
+
+// Call quality (GQ, else QUAL) maps linearly from MIN_PHRED -> MIN_QUALITY_VALUE
+// up to FULL_PHRED -> 1; calls below MIN_PHRED were already excluded.
+const MIN_PHRED = 20;
+const FULL_PHRED = 50;
+const MIN_QUALITY_VALUE = 0.8;
+// Sites-only VCFs and array imports carry no per-call quality.
+const UNREPORTED_QUALITY_VALUE = 0.9;
+
+// Share of the coverage factor that does not depend on the defining positions seen.
+const COVERAGE_FLOOR = 0.6;
+
+// Equally good candidate diplotypes: same phenotype vs. different phenotypes.
+const PHASE_TIED_SAME_PHENOTYPE = 0.95;
+const PHASE_TIED_DIFFERENT_PHENOTYPE = 0.7;
+
+export class ConfidenceService {
+    /**
+     * Deterministic confidence for a phenotype-based recommendation: the product
+     * of call quality, defining-position coverage, phase certainty and the rule's
+     * evidence level. Each factor takes the weakest of the genes the rule used.
+     */
+    public score(calls: DiplotypeCall[], evidenceLevel: EvidenceLevel | null): ConfidenceBreakdown {
+        const factors = [
+            this.callQuality(calls),
+            this.coverage(calls),
+            this.phase(calls),
+            this.evidence(evidenceLevel),
+        ];
+        const score = factors.reduce((product, f) => product * f.value, 1);
+
+        return {
+            score: this.round(score),
+            basis: 'Product of call quality, defining-position coverage, phase and rule evidence.',
+            factors,
+        };
+    }
+
+    /** Fixed score for results that never reached phenotype calling. */
+    public fixed(score: number, basis: string): ConfidenceBreakdown {
+        return { score, basis, factors: [] };
+    }
+
+    private callQuality(calls: DiplotypeCall[]): ConfidenceFactor {
+        let weakest = { value: 1, detail: 'No calls contributed to the diplotype.' };
+        for (const call of calls) {
+            for (const v of call.variants) {
+                const gq = qualityService.numericField(v, 'GQ');
+                const phred = gq ?? v.qual;
+                const value =
+                    phred === null
+                        ? UNREPORTED_QUALITY_VALUE
+                        : MIN_QUALITY_VALUE +
+                          (1 - MIN_QUALITY_VALUE) *
+                              Math.min(1, Math.max(0, (phred - MIN_PHRED) / (FULL_PHRED - MIN_PHRED)));
+                if (value > weakest.value) continue;
+
+                const id = v.rsId || `${v.chromosome}:${v.position}`;
+                weakest = {
+                    value,
+                    detail:
+                        phred === null
+                            ? `${call.gene} ${id} has no GQ or QUAL.`
+                            : `Weakest call: ${call.gene} ${id} (${gq !== null ? 'GQ' : 'QUAL'} ${phred}).`,
+                };
+            }
+        }
+        return { factor: 'call_quality', value: this.round(weakest.value), detail: weakest.detail };
+    }
+
+    private coverage(calls: DiplotypeCall[]): ConfidenceFactor {
+        let weakest = { value: 1, detail: 'No defining positions to cover.' };
+        for (const call of calls) {
+            const observed = call.callability.interrogated.length;
+            const defined = observed + call.callability.missing.length;
+            if (defined === 0) continue;
+            const value = COVERAGE_FLOOR + (1 - COVERAGE_FLOOR) * (observed / defined);
+            if (value > weakest.value) continue;
+            weakest = { value, detail: `${call.gene}: ${observed} of ${defined} defining positions called.` };
+        }
+        return { factor: 'coverage', value: this.round(weakest.value), detail: weakest.detail };
+    }
+
+    /**
+     * Phase only costs confidence when it matters: another candidate diplotype
+     * explains the calls equally well. It costs more if that candidate has a
+     * different phenotype.
+     */
+    private phase(calls: DiplotypeCall[]): ConfidenceFactor {
+        let weakest = { value: 1, detail: 'Every diplotype is uniquely determined.' };
+        for (const call of calls) {
+            const tied = call.candidates.filter((c) => c.diplotype !== call.diplotype && c.penalty === call.penalty);
+            if (tied.length === 0) continue;
+
+            const conflicting = tied.some((c) => c.phenotype !== call.phenotype);
+            const value = conflicting ? PHASE_TIED_DIFFERENT_PHENOTYPE : PHASE_TIED_SAME_PHENOTYPE;
+            if (value > weakest.value) continue;
+            weakest = {
+                value,
+                detail: `${call.gene} ${call.diplotype} is tied with ${tied.map((c) => c.diplotype).join(', ')}${
+                    conflicting ? ', which predicts a different phenotype' : ' (same phenotype)'
+                }.`,
+            };
+        }
+        return { factor: 'phase', value: weakest.value, detail: weakest.detail };
+    }
+
+    private evidence(level: EvidenceLevel | null): ConfidenceFactor {
+        if (!level) {
+            return { factor: 'evidence', value: NO_RULE_WEIGHT, detail: 'No rule covers this phenotype.' };
+        }
+        return { factor: 'evidence', value: EVIDENCE_WEIGHTS[level], detail: `Rule evidence level: ${level}.` };
+    }
+
+    private round(value: number): number {
+        return Number(value.toFixed(2));
+    }
+}
+
+export const confidenceService = new ConfidenceService();
@@ -1,4 +1,4 @@
-import type { Recommendation } from './ruleEngine.service';
+import type { GeneResult, Recommendation } from './ruleEngine.service';
 import type { ClinicalContext } from './llm.service';
 
 export class ContextService {
@@ -10,11 +10,27 @@ export class ContextService {
         result: Recommendation,
         mode: 'patient' | 'expert'
     ): ClinicalContext {
+        // Multi-gene drugs (warfarin, thiopurines) describe every gene's call.
+        const genes = result.gene_results ?? [];
+        const multiGene = genes.length > 1;
+
+        // Phenoconverted genes name the genotype phenotype and the medication too.
+        const converted = (g: GeneResult) =>
+            g.phenotype === g.genotype_phenotype
+                ? g.phenotype
+                : `${g.phenotype} (genotype predicts ${g.genotype_phenotype}; phenoconverted by ${g.phenoconversion!.perpetrators[0]!.drug.toLowerCase()})`;
+
         return {
             drug: drug.toUpperCase(),
-            gene: result.gene || 'Unknown',
-            phenotype: result.phenotype || 'Unknown',
-            variants: result.detected_variant || 'None detected',
+            gene: multiGene ? genes.map((g) => g.gene).join(' + ') : result.gene || 'Unknown',
+            phenotype: multiGene
+                ? genes.map((g) => `${g.gene}: ${converted(g)}`).join('; ')
+                : genes[0]
+                  ? converted(genes[0])
+                  : result.phenotype || 'Unknown',
+            variants: multiGene
+                ? genes.map((g) => `${g.gene} ${g.diplotype ?? 'none detected'}`).join('; ')
+                : result.detected_variant || 'None detected',
             recommendation: result.recommendation || 'Standard dosing',
             risk_level: result.risk_label || 'Low',
             mode: mode
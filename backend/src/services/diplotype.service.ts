@@ -0,0 +1,632 @@
+import type { GenomeBuild } from './geneRegion.service';
+import { knowledgeBaseService, REFERENCE_ALLELE, type KnowledgeBase } from './knowledgeBase.service';
+import type { ParsedVariant } from './vcf.service';
+
+export type AlleleFunction = 'normal' | 'decreased' | 'no_function' | 'increased' | 'uncertain';
+
+export interface AlleleDefinition {
+    function: AlleleFunction;
+    /** Activity value; only used by genes scored with the activity-score method. */
+    activity?: number;
+}
+
+export interface ActivityPhenotype {
+    phenotype: string;
+    min: number;
+    /** Open-ended when absent. */
+    max?: number;
+}
+
+export interface GeneFunctionTable {
+    /**
+     * "activity_score": sum the two allele activity values and look the total up in
+     * activity_phenotypes (CYP2D6, CYP2C9, DPYD). "function": look the pair of allele
+     * functions up in function_phenotypes (CYP2C19, TPMT, SLCO1B1).
+     */
+    method: 'activity_score' | 'function';
+    alleles: Record<string, AlleleDefinition>;
+    activity_phenotypes?: ActivityPhenotype[];
+    /** Keyed by the two functions in alphabetical order, e.g. "no_function/normal". */
+    function_phenotypes?: Record<string, string>;
+}
+
+export interface DefiningVariant {
+    GRCh37: number;
+    GRCh38: number;
+    /** Plus-strand alleles. */
+    ref: string;
+    alt: string;
+}
+
+export interface GeneAlleleDefinitions {
+    chrom: string;
+    /**
+     * Allele named for a whole-gene deletion (CYP2D6*5). Only genes that define one
+     * have their structural-variant calls turned into deletions and duplications.
+     */
+    deletion_allele?: string;
+    /** Name of the reference haplotype when it is not "*1" (e.g. VKORC1 "-1639G"). */
+    reference_allele?: string;
+    /** Defining positions, keyed by rsID. */
+    variants: Record<string, DefiningVariant>;
+    /** Star allele -> the rsIDs whose ALT alleles it carries. */
+    alleles: Record<string, string[]>;
+}
+
+export interface DiplotypeCandidate {
+    /** e.g. "*1/*4"; duplicated alleles carry their copy count, e.g. "*1x2/*4". */
+    diplotype: string;
+    alleles: [string, string];
+    functions: [AlleleFunction, AlleleFunction];
+    /** Sum of allele activity values; null for function-method genes or unscored alleles. */
+    activityScore: number | null;
+    /** Null when an allele has no assigned function or the combination is not tabulated. */
+    phenotype: string | null;
+    /** Weighted count of definition mismatches; 0 is an exact match on both haplotypes. */
+    penalty: number;
+}
+
+export interface DiplotypeCall extends DiplotypeCandidate {
+    gene: string;
+    /**
+     * True when the haplotypes are fully determined: at most one unphased
+     * heterozygous site (or phase block), so only one phase arrangement exists.
+     */
+    phased: boolean;
+    /** Total gene copies from structural-variant calls; null when none were made. */
+    copyNumber: number | null;
+    /** Every distinct diplotype consistent with the calls, best guess first. */
+    candidates: DiplotypeCandidate[];
+    /**
+     * Calls that carry a defining ALT allele or change the copy number; for an
+     * inferred reference diplotype, the REF calls at the defining positions.
+     */
+    variants: ParsedVariant[];
+    callability: Callability;
+    /** True for a reference/reference diplotype inferred from REF calls alone. */
+    inferred: boolean;
+}
+
+/** Which of a gene's defining positions (allele_definitions.json rsIDs) have a usable call. */
+export interface Callability {
+    /** Called REF or ALT. */
+    interrogated: string[];
+    /** No record, or a no-call. */
+    missing: string[];
+}
+
+export type VariantMappingStatus = 'mapped' | 'known_not_in_rules' | 'novel_vus';
+
+/** A called variant in one of the drug's genes and what it was mapped to. */
+export interface VariantAnnotation {
+    rsId: string;
+    chromosome: string;
+    position: string;
+    ref: string;
+    alt: string;
+    genotype: string | null;
+    /**
+     * mapped: explained by an allele of the reported diplotype. known_not_in_rules:
+     * a defining position, INFO/STAR or rsID the reported diplotype does not use.
+     * novel_vus: no rsID and no allele definition (variant of uncertain significance).
+     */
+    status: VariantMappingStatus;
+    /** For mapped variants the alleles they were mapped to, otherwise every allele they define. */
+    alleles: string[];
+    /** INFO/STAR as written in the VCF. */
+    annotated_star: string | null;
+    /**
+     * False for an indel that could not be left-aligned (no bundled reference
+     * sequence there); it was matched at the position the VCF gives.
+     */
+    normalized: boolean;
+}
+
+/** Disagreement that the caller resolved; reported instead of silently picking one side. */
+export interface AlleleConflict {
+    type: 'tied_diplotypes' | 'annotation_mismatch';
+    /** Reported diplotype then the equally good ones, or the INFO/STAR allele then the defined ones. */
+    alleles: string[];
+    resolution: string;
+}
+
+/** One defining position as seen in the sample: per-haplotype 1 (ALT), 0 (REF) or null (unknown). */
+interface Site {
+    id: string;
+    haplotypes: [number | null, number | null];
+    /** Phase block for heterozygous sites; the two haplotypes can be swapped per block. */
+    block?: string;
+    variant: ParsedVariant;
+}
+
+interface HaplotypeMatch {
+    allele: string;
+    penalty: number;
+    size: number;
+}
+
+// Mismatch weights: an ALT the allele does not explain outweighs a defining
+// position called REF, which outweighs a defining position absent from the VCF.
+const UNEXPLAINED_PENALTY = 10;
+const CONTRADICTED_PENALTY = 5;
+const MISSING_PENALTY = 1;
+
+// Phase blocks beyond this keep their VCF orientation rather than being enumerated.
+const MAX_PHASE_BLOCKS = 10;
+const MAX_CANDIDATES = 5;
+
+export class DiplotypeService {
+    /** POS:ALT -> rsID per gene, built per knowledge base and genome build on first use. */
+    private positionIndex = new WeakMap<KnowledgeBase, Map<GenomeBuild, Map<string, Map<string, string>>>>();
+
+    /**
+     * Match a gene's calls against its allele definitions and assign the
+     * diplotype. Phased (`|`) genotypes are kept together; for unphased
+     * heterozygous sites every arrangement is scored and the candidates ranked.
+     * Copy-number changes turn into deletion alleles or duplicated (xN) alleles.
+     * Without any defining ALT allele or copy-number change, the reference
+     * diplotype is inferred only when every defining position was called;
+     * otherwise returns null.
+     */
+    public call(gene: string, variants: ParsedVariant[], build: GenomeBuild): DiplotypeCall | null {
+        const { alleleFunctions, alleleDefinitions } = knowledgeBaseService.current();
+        const table = alleleFunctions[gene];
+        const deletionAllele = alleleDefinitions[gene]?.deletion_allele;
+        const reference = alleleDefinitions[gene]?.reference_allele ?? REFERENCE_ALLELE;
+        const { sites, definitions, structural } = this.locate(gene, variants, build);
+        const callability = this.callabilityOf(gene, sites);
+
+        const carriers = sites.filter((s) => s.haplotypes.includes(1));
+        const copyNumber = deletionAllele ? this.copyNumber(structural) : null;
+        if (carriers.length === 0 && (copyNumber === null || copyNumber === 2)) {
+            if (callability.interrogated.length === 0 || callability.missing.length > 0) return null;
+
+            const best = this.candidate(table, [reference, reference], 0, reference);
+            return {
+                gene,
+                ...best,
+                phased: true,
+                copyNumber,
+                candidates: [best],
+                variants: sites.map((s) => s.variant),
+                callability,
+                inferred: true,
+            };
+        }
+
+        const blocks = [...new Set(sites.map((s) => s.block).filter((b): b is string => !!b))];
+        const flippable = blocks.slice(1, MAX_PHASE_BLOCKS);
+
+        const byDiplotype = new Map<string, DiplotypeCandidate>();
+        for (let mask = 0; mask < 2 ** flippable.length; mask++) {
+            const flipped = new Set(flippable.filter((_, i) => mask & (1 << i)));
+            const haplotypes = [0, 1].map((h) => {
+                const alts = new Set<string>();
+                const refs = new Set<string>();
+                for (const site of sites) {
+                    const index = site.block && flipped.has(site.block) ? 1 - h : h;
+                    const value = site.haplotypes[index];
+                    if (value === 1) alts.add(site.id);
+                    if (value === 0) refs.add(site.id);
+                }
+                return this.matchHaplotype(definitions, alts, refs, reference);
+            });
+
+            const penalty = haplotypes.reduce((sum, m) => sum + m.penalty, 0);
+            const arrangements = this.applyCopyNumber(
+                [haplotypes[0]!.allele, haplotypes[1]!.allele],
+                copyNumber,
+                deletionAllele,
+            );
+            for (const alleles of arrangements) {
+                const candidate = this.candidate(table, alleles, penalty, reference);
+                const existing = byDiplotype.get(candidate.diplotype);
+                if (!existing || candidate.penalty < existing.penalty) {
+                    byDiplotype.set(candidate.diplotype, candidate);
+                }
+            }
+        }
+
+        const candidates = [...byDiplotype.values()]
+            .sort((a, b) => this.compareCandidates(a, b, reference))
+            .slice(0, MAX_CANDIDATES);
+        const best = candidates[0]!;
+
+        return {
+            gene,
+            ...best,
+            phased: blocks.length <= 1,
+            copyNumber,
+            candidates,
+            variants: [...carriers.map((s) => s.variant), ...structural],
+            callability,
+            inferred: false,
+        };
+    }
+
+    /**
+     * List the gene's calls with what each was mapped to, and the conflicts behind
+     * the call: equally good diplotypes, and INFO/STAR annotations that disagree
+     * with the allele definitions (the definitions win).
+     */
+    public annotate(
+        gene: string,
+        variants: ParsedVariant[],
+        build: GenomeBuild,
+        call: DiplotypeCall | null,
+    ): { variants: VariantAnnotation[]; conflicts: AlleleConflict[] } {
+        const gd = knowledgeBaseService.current().alleleDefinitions[gene];
+        const reported = new Set(call?.alleles.map((a) => this.splitCopies(a).allele));
+        const annotations: VariantAnnotation[] = [];
+        const conflicts: AlleleConflict[] = [];
+
+        for (const v of variants) {
+            if (v.referenceBlock) continue;
+            // Only calls that carry an ALT allele or change the copy number are listed.
+            const change = v.structural ? this.copyChange(v) : null;
+            const listed = v.structural ? !!change : !v.genotype?.noCall && this.altCopies(v) > 0;
+            if (!listed) continue;
+
+            const id = v.structural ? undefined : this.definingId(gene, v, build);
+            const defined = id
+                ? Object.entries(gd?.alleles ?? {})
+                      .filter(([, ids]) => ids.includes(id))
+                      .map(([allele]) => allele)
+                : [];
+
+            let alleles: string[];
+            let status: VariantMappingStatus;
+            if (v.structural) {
+                // Copy-number changes surface as the deletion allele or xN duplications.
+                alleles = [
+                    ...new Set(
+                        (call?.alleles ?? []).filter((a) =>
+                            change! < 0 ? a === gd?.deletion_allele : /x\d+$/.test(a),
+                        ),
+                    ),
+                ];
+                status = alleles.length > 0 ? 'mapped' : 'known_not_in_rules';
+            } else {
+                const candidates = id ? defined : v.starAllele ? [v.starAllele] : [];
+                const mapped = candidates.filter((a) => reported.has(a));
+                alleles = mapped.length > 0 ? mapped : candidates;
+                status = mapped.length > 0 ? 'mapped' : id || v.starAllele || v.rsId ? 'known_not_in_rules' : 'novel_vus';
+            }
+
+            annotations.push({
+                rsId: v.rsId,
+                chromosome: v.chromosome,
+                position: v.position,
+                ref: v.ref,
+                alt: v.alt,
+                genotype: v.genotype?.raw ?? null,
+                status,
+                alleles,
+                annotated_star: v.starAllele ?? null,
+                normalized: !v.unnormalized,
+            });
+
+            if (id && v.starAllele && !defined.includes(v.starAllele)) {
+                conflicts.push({
+                    type: 'annotation_mismatch',
+                    alleles: [v.starAllele, ...defined],
+                    resolution: `INFO/STAR=${v.starAllele} on ${id} was ignored; allele_definitions.json places ${id} in ${defined.join(', ')}.`,
+                });
+            }
+        }
+
+        if (call) {
+            const reference = gd?.reference_allele ?? REFERENCE_ALLELE;
+            const tied = call.candidates.filter((c) => c.diplotype !== call.diplotype && c.penalty === call.penalty);
+            if (tied.length > 0) {
+                conflicts.push({
+                    type: 'tied_diplotypes',
+                    alleles: [call.diplotype, ...tied.map((c) => c.diplotype)],
+                    resolution: `Reported ${call.diplotype} over ${tied
+                        .map((c) => `${c.diplotype} (${this.tieBreakReason(call, c, reference)})`)
+                        .join(', ')}.`,
+                });
+            }
+        }
+
+        return { variants: annotations, conflicts };
+    }
+
+    /** Defining positions of a gene with and without a usable call. */
+    public callability(gene: string, variants: ParsedVariant[], build: GenomeBuild): Callability {
+        return this.callabilityOf(gene, this.locate(gene, variants, build).sites);
+    }
+
+    private callabilityOf(gene: string, sites: Site[]): Callability {
+        const called = new Set(sites.map((s) => s.id));
+        const defined = Object.keys(knowledgeBaseService.current().alleleDefinitions[gene]?.variants ?? {});
+        return {
+            interrogated: defined.filter((id) => called.has(id)),
+            missing: defined.filter((id) => !called.has(id)),
+        };
+    }
+
+    /**
+     * Resolve calls to defining positions (by POS/ALT on the analysis build, then
+     * rsID). A precomputed INFO/STAR on any other call defines that allele on its own.
+     * A confident 0/0 reference block makes every defining position it covers REF.
+     * Structural-variant calls are returned separately for the copy number.
+     */
+    private locate(
+        gene: string,
+        variants: ParsedVariant[],
+        build: GenomeBuild,
+    ): { sites: Site[]; definitions: [string, string[]][]; structural: ParsedVariant[] } {
+        const gd = knowledgeBaseService.current().alleleDefinitions[gene];
+        const definitions: [string, string[]][] = Object.entries(gd?.alleles ?? {});
+        const sites = new Map<string, Site>();
+        const structural: ParsedVariant[] = [];
+        const referenceBlocks: ParsedVariant[] = [];
+
+        for (const v of variants) {
+            if (v.structural) {
+                structural.push(v);
+                continue;
+            }
+            if (v.genotype?.noCall) continue;
+            if (v.referenceBlock) {
+                referenceBlocks.push(v);
+                continue;
+            }
+
+            let id = this.definingId(gene, v, build);
+            if (!id && v.starAllele) {
+                id = `${v.chromosome}:${v.position}:${v.ref}:${v.alt}`;
+                definitions.push([v.starAllele, [id]]);
+            }
+            if (!id) continue;
+
+            // A call without the defining ALT never replaces one that carries it.
+            const site = { id, variant: v, ...this.haplotypesOf(v, id) };
+            const existing = sites.get(id);
+            if (existing?.haplotypes.includes(1) && !site.haplotypes.includes(1)) continue;
+            sites.set(id, site);
+        }
+
+        // Only a called 0/0 counts: a block genotyped 0/1 carries an unseen <NON_REF> allele.
+        for (const block of referenceBlocks) {
+            if (!block.genotype?.alleles.every((a) => a === 0)) continue;
+            const start = Number(block.position);
+            for (const [id, definition] of Object.entries(gd?.variants ?? {})) {
+                const pos = definition[build];
+                const covered = id === block.rsId || (pos >= start && pos <= block.referenceBlock!.end);
+                if (covered && !sites.has(id)) sites.set(id, { id, variant: block, haplotypes: [0, 0] });
+            }
+        }
+
+        return { sites: [...sites.values()], definitions, structural };
+    }
+
+    /**
+     * Total gene copies implied by the structural-variant calls: FORMAT/CN or
+     * INFO/CN when given, otherwise one copy lost (<DEL>) or gained (<DUP>) per
+     * ALT allele in the genotype. Null when no call says anything about copies.
+     */
+    private copyNumber(variants: ParsedVariant[]): number | null {
+        let total: number | null = null;
+        for (const v of variants) {
+            const change = this.copyChange(v);
+            if (change === null) continue;
+            total = (total ?? 2) + change;
+        }
+        return total === null ? null : Math.max(0, total);
+    }
+
+    /** Gene copies one structural-variant call adds or removes; null when it says nothing about copies. */
+    private copyChange(variant: ParsedVariant): number | null {
+        const cn = Number(variant.sampleFields?.['CN'] ?? variant.structural?.copyNumber ?? NaN);
+        if (Number.isInteger(cn)) return cn - 2;
+        if (variant.genotype?.noCall) return null;
+        if (variant.structural?.type === 'DEL') return -this.altCopies(variant);
+        if (variant.structural?.type === 'DUP') return this.altCopies(variant);
+        return null;
+    }
+
+    /**
+     * Place copy-number changes on the two haplotype alleles. One copy: either
+     * haplotype may be the deleted one. Three or more: the extra copies sit on one
+     * haplotype, and which one is ambiguous unless both carry the same allele.
+     */
+    private applyCopyNumber(
+        [a, b]: [string, string],
+        copyNumber: number | null,
+        deletionAllele: string | undefined,
+    ): string[][] {
+        if (copyNumber === null || copyNumber === 2 || !deletionAllele) return [[a, b]];
+        if (copyNumber === 0) return [[deletionAllele, deletionAllele]];
+        if (copyNumber === 1) return [[a, deletionAllele], [b, deletionAllele]];
+
+        const copies = copyNumber - 1;
+        return [[`${a}x${copies}`, b], [a, `${b}x${copies}`]];
+    }
+
+    /** Number of ALT copies carried; sites-only records count once. */
+    private altCopies(variant: ParsedVariant): number {
+        if (!variant.genotype) return 1;
+        return variant.genotype.alleles.filter((x) => x !== null && x > 0).length;
+    }
+
+    /**
+     * Split a call across the two haplotypes. Sites-only records count as one
+     * unphased ALT copy; phased heterozygous calls share their PS block.
+     */
+    private haplotypesOf(variant: ParsedVariant, id: string): Pick<Site, 'haplotypes' | 'block'> {
+        const genotype = variant.genotype;
+        if (!genotype) return { haplotypes: [1, null], block: id };
+
+        const [a = null, b = null] = genotype.alleles.map((x) => (x === null ? null : x > 0 ? 1 : 0));
+        if (a === b || b === null) return { haplotypes: [a, b] };
+
+        const block = genotype.phased ? `PS:${variant.sampleFields?.['PS'] ?? ''}` : id;
+        return { haplotypes: [a, b], block };
+    }
+
+    /**
+     * Best allele for one haplotype: the definition explaining its ALTs with the
+     * lowest mismatch penalty, preferring the more specific one on ties.
+     */
+    private matchHaplotype(
+        definitions: [string, string[]][],
+        alts: Set<string>,
+        refs: Set<string>,
+        reference: string,
+    ): HaplotypeMatch {
+        let best: HaplotypeMatch = {
+            allele: reference,
+            penalty: alts.size * UNEXPLAINED_PENALTY,
+            size: 0,
+        };
+
+        for (const [allele, ids] of definitions) {
+            const explained = ids.filter((id) => alts.has(id)).length;
+            if (explained === 0) continue;
+            const contradicted = ids.filter((id) => refs.has(id)).length;
+            const missing = ids.length - explained - contradicted;
+
+            const penalty =
+                (alts.size - explained) * UNEXPLAINED_PENALTY +
+                contradicted * CONTRADICTED_PENALTY +
+                missing * MISSING_PENALTY;
+            if (penalty < best.penalty || (penalty === best.penalty && ids.length > best.size)) {
+                best = { allele, penalty, size: ids.length };
+            }
+        }
+        return best;
+    }
+
+    private candidate(
+        table: GeneFunctionTable | undefined,
+        haplotypeAlleles: string[],
+        penalty: number,
+        reference: string,
+    ): DiplotypeCandidate {
+        const alleles = [...haplotypeAlleles].sort(
+            (a, b) => Number(b === reference) - Number(a === reference) || this.compareAlleles(a, b),
+        ) as [string, string];
+        const functions = alleles.map(
+            (a) => table?.alleles[this.splitCopies(a).allele]?.function ?? 'uncertain',
+        ) as [AlleleFunction, AlleleFunction];
+        const activityScore = this.activityScore(table, alleles);
+
+        return {
+            diplotype: alleles.join('/'),
+            alleles,
+            functions,
+            activityScore,
+            phenotype: this.phenotype(table, functions, activityScore),
+            penalty,
+        };
+    }
+
+    /**
+     * Defining position a call sits on: POS/ALT on the analysis build, then rsID.
+     * The rsID only counts with the defining ALT: a multi-allelic row split into
+     * one record per ALT keeps its rsID on every record.
+     */
+    private definingId(gene: string, variant: ParsedVariant, build: GenomeBuild): string | undefined {
+        const byPosition = this.indexFor(build).get(gene)?.get(`${variant.position}:${variant.alt}`);
+        if (byPosition) return byPosition;
+        const definition = knowledgeBaseService.current().alleleDefinitions[gene]?.variants[variant.rsId];
+        return definition && variant.alt.toUpperCase() === definition.alt.toUpperCase() ? variant.rsId : undefined;
+    }
+
+    private compareCandidates(a: DiplotypeCandidate, b: DiplotypeCandidate, reference: string): number {
+        return (
+            a.penalty - b.penalty ||
+            this.variantAlleleCount(a, reference) - this.variantAlleleCount(b, reference) ||
+            (b.activityScore ?? 0) - (a.activityScore ?? 0) ||
+            a.diplotype.localeCompare(b.diplotype)
+        );
+    }
+
+    /** Which tie-breaker in compareCandidates put `best` ahead of an equally penalised candidate. */
+    private tieBreakReason(best: DiplotypeCandidate, other: DiplotypeCandidate, reference: string): string {
+        if (this.variantAlleleCount(best, reference) !== this.variantAlleleCount(other, reference)) {
+            return 'fewer non-reference alleles';
+        }
+        if ((best.activityScore ?? 0) !== (other.activityScore ?? 0)) return 'higher activity score';
+        return 'alphabetical order';
+    }
+
+    /**
+     * Equally good matches are ranked by parsimony: fewer non-reference alleles
+     * first. Remaining ties (which haplotype is duplicated) go to the higher
+     * activity score, since missing an ultrarapid metabolizer is the costlier error.
+     */
+    private variantAlleleCount(candidate: DiplotypeCandidate, reference: string): number {
+        return candidate.alleles.filter((a) => this.splitCopies(a).allele !== reference).length;
+    }
+
+    private indexFor(build: GenomeBuild): Map<string, Map<string, string>> {
+        const kb = knowledgeBaseService.current();
+        let byBuild = this.positionIndex.get(kb);
+        if (!byBuild) {
+            byBuild = new Map();
+            this.positionIndex.set(kb, byBuild);
+        }
+        let index = byBuild.get(build);
+        if (!index) {
+            index = new Map(
+                Object.entries(kb.alleleDefinitions).map(([gene, gd]) => [
+                    gene,
+                    new Map(Object.entries(gd.variants).map(([id, v]) => [`${v[build]}:${v.alt}`, id])),
+                ]),
+            );
+            byBuild.set(build, index);
+        }
+        return index;
+    }
+
+    private activityScore(table: GeneFunctionTable | undefined, alleles: string[]): number | null {
+        if (table?.method !== 'activity_score') return null;
+        let total = 0;
+        for (const name of alleles) {
+            const { allele, copies } = this.splitCopies(name);
+            const activity = table.alleles[allele]?.activity;
+            if (activity === undefined) return null;
+            total += activity * copies;
+        }
+        return total;
+    }
+
+    /** "*2x3" -> *2 carried three times. */
+    private splitCopies(name: string): { allele: string; copies: number } {
+        const match = /^(\*.+)x(\d+)$/.exec(name);
+        return match ? { allele: match[1]!, copies: Number(match[2]) } : { allele: name, copies: 1 };
+    }
+
+    private phenotype(
+        table: GeneFunctionTable | undefined,
+        functions: AlleleFunction[],
+        activityScore: number | null,
+    ): string | null {
+        if (!table || functions.includes('uncertain')) return null;
+
+        if (table.method === 'activity_score') {
+            if (activityScore === null) return null;
+            const match = table.activity_phenotypes?.find(
+                (p) => activityScore >= p.min && (p.max === undefined || activityScore <= p.max),
+            );
+            return match?.phenotype ?? null;
+        }
+
+        const key = [...functions].sort().join('/');
+        return table.function_phenotypes?.[key] ?? null;
+    }
+
+    /** "*1" < "*4" < "*10" < "*41"; non-star names (e.g. "HapB3") sort last. */
+    private compareAlleles(a: string, b: string): number {
+        const num = (s: string) => {
+            const m = /^\*(\d+)/.exec(s);
+            return m ? Number(m[1]) : Number.MAX_SAFE_INTEGER;
+        };
+        return num(a) - num(b) || a.localeCompare(b);
+    }
+}
+
+export const diplotypeService = new DiplotypeService();
@@ -0,0 +1,190 @@
+import { knowledgeBaseService, type KnowledgeBase } from './knowledgeBase.service';
+import { normalizeDrugName } from '../utils/normalizeDrugName';
+
+/** drug_dictionary.json entry; every list may be empty. */
+export interface DrugDictionaryEntry {
+    /** RxNorm concept IDs of the ingredient(s). */
+    rxcui: string[];
+    /** Generic names, including related ingredients the drug's rules cover (capecitabine). */
+    generic_names: string[];
+    brand_names: string[];
+    abbreviations: string[];
+}
+
+export type DrugMatch = 'drug' | 'generic_name' | 'brand_name' | 'abbreviation' | 'rxcui';
+
+/** How free-text drug input was mapped to a canonical drug. */
+export interface DrugResolution {
+    input: string;
+    /** Canonical drug: a drug_dictionary.json / drug_gene_map.json key. */
+    drug: string;
+    matched_by: DrugMatch;
+    /** The name or RxCUI that matched, as written in the dictionary. */
+    matched_name: string;
+}
+
+export interface DrugSuggestion {
+    name: string;
+    drug: string;
+}
+
+interface DictionaryName {
+    drug: string;
+    match: DrugMatch;
+    name: string;
+}
+
+interface DictionaryIndex {
+    /** Normalised name -> entry. */
+    names: Map<string, DictionaryName>;
+    rxcui: Map<string, DictionaryName>;
+}
+
+export class UnknownDrugError extends Error {
+    /** Close dictionary names per input that did not resolve. */
+    public readonly suggestions: Record<string, DrugSuggestion[]>;
+
+    constructor(message: string, suggestions: Record<string, DrugSuggestion[]>) {
+        super(message);
+        this.name = 'UnknownDrugError';
+        this.suggestions = suggestions;
+    }
+}
+
+const RXCUI_INPUT = /^(?:rxcui\s*:?\s*)?(\d+)$/i;
+
+const MAX_SUGGESTIONS = 3;
+// Edits allowed per this many characters of the dictionary name, at least one.
+const CHARS_PER_EDIT = 4;
+// Inputs this long also match names they begin ("clopid" -> clopidogrel).
+const MIN_PREFIX_LENGTH = 4;
+
+export class DrugDictionaryService {
+    private indexes = new WeakMap<KnowledgeBase, DictionaryIndex>();
+
+    /**
+     * Map a drug name, brand name, abbreviation or RxCUI to its canonical drug.
+     * Matching ignores case, punctuation and salt words; returns null when
+     * nothing matches exactly.
+     */
+    public resolve(input: string): DrugResolution | null {
+        const index = this.index();
+        const rxcui = RXCUI_INPUT.exec(input.trim())?.[1];
+        const entry = rxcui ? index.rxcui.get(rxcui) : index.names.get(normalizeDrugName(input));
+        return entry ? { input, drug: entry.drug, matched_by: entry.match, matched_name: entry.name } : null;
+    }
+
+    /**
+     * Resolve every input to a drug with pharmacogenomic rules. Throws
+     * UnknownDrugError, with suggestions, for names that do not resolve or
+     * resolve to a drug without rules.
+     */
+    public resolveSupported(inputs: string[]): DrugResolution[] {
+        const supported = knowledgeBaseService.current().drugGeneMap;
+        const resolutions: DrugResolution[] = [];
+        const problems: string[] = [];
+        const suggestions: Record<string, DrugSuggestion[]> = {};
+
+        for (const input of inputs) {
+            const resolution = this.resolve(input);
+            if (resolution && supported[resolution.drug]) {
+                resolutions.push(resolution);
+                continue;
+            }
+
+            const close = this.suggest(input).filter((s) => supported[s.drug]);
+            suggestions[input] = close;
+            const names = close.map((s) => (s.name === s.drug ? s.drug : `${s.name} (${s.drug})`));
+            const hint = names.length > 0 ? ` Did you mean ${names.join(', ')}?` : '';
+            problems.push(
+                resolution
+                    ? `"${input}" (${resolution.drug}) has no pharmacogenomic rules.${hint}`
+                    : `Unknown drug "${input}".${hint}`,
+            );
+        }
+
+        if (problems.length > 0) {
+            throw new UnknownDrugError(
+                `${problems.join(' ')} Supported: ${Object.keys(supported).join(', ')}.`,
+                suggestions,
+            );
+        }
+        return resolutions;
+    }
+
+    /**
+     * Dictionary names close to the input: within one edit per CHARS_PER_EDIT
+     * characters, or starting with it. Closest first, one per drug.
+     */
+    public suggest(input: string, limit = MAX_SUGGESTIONS): DrugSuggestion[] {
+        const key = normalizeDrugName(input);
+        if (!key) return [];
+
+        const best = new Map<string, { name: string; distance: number }>();
+        for (const [name, entry] of this.index().names) {
+            const prefix = key.length >= MIN_PREFIX_LENGTH && name.startsWith(key);
+            const distance = prefix ? 0 : this.editDistance(key, name);
+            if (distance > Math.max(1, Math.floor(name.length / CHARS_PER_EDIT))) continue;
+
+            const current = best.get(entry.drug);
+            if (!current || distance < current.distance) best.set(entry.drug, { name: entry.name, distance });
+        }
+
+        return [...best]
+            .sort(([a, x], [b, y]) => x.distance - y.distance || a.localeCompare(b))
+            .slice(0, limit)
+            .map(([drug, { name }]) => ({ name, drug }));
+    }
+
+    /** Lookup tables, built per knowledge base on first use. */
+    private index(): DictionaryIndex {
+        const kb = knowledgeBaseService.current();
+        let index = this.indexes.get(kb);
+        if (index) return index;
+
+        index = { names: new Map(), rxcui: new Map() };
+        // Drugs with rules resolve by their own name even without a dictionary entry.
+        for (const drug of Object.keys(kb.drugGeneMap)) {
+            index.names.set(normalizeDrugName(drug), { drug, match: 'drug', name: drug });
+        }
+        for (const [drug, entry] of Object.entries(kb.drugDictionary)) {
+            index.names.set(normalizeDrugName(drug), { drug, match: 'drug', name: drug });
+            const names: [DrugMatch, string[]][] = [
+                ['generic_name', entry.generic_names],
+                ['brand_name', entry.brand_names],
+                ['abbreviation', entry.abbreviations],
+            ];
+            for (const [match, list] of names) {
+                for (const name of list) {
+                    const key = normalizeDrugName(name);
+                    // The canonical name keeps its 'drug' match.
+                    if (!index.names.has(key)) index.names.set(key, { drug, match, name });
+                }
+            }
+            for (const id of entry.rxcui) index.rxcui.set(id, { drug, match: 'rxcui', name: id });
+        }
+
+        this.indexes.set(kb, index);
+        return index;
+    }
+
+    /** Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps. */
+    private editDistance(a: string, b: string): number {
+        const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+            Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+        );
+        for (let i = 1; i <= a.length; i++) {
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                let d = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                    d = Math.min(d, rows[i - 2]![j - 2]! + 1);
+                }
+                rows[i]![j] = d;
+            }
+        }
+        return rows[a.length]![b.length]!;
+    }
+}
+
+export const drugDictionaryService = new DrugDictionaryService();
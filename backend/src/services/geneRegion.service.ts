@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+
+export type GenomeBuild = 'GRCh37' | 'GRCh38';
+
+export const GENOME_BUILDS: GenomeBuild[] = ['GRCh37', 'GRCh38'];
+
+export const DEFAULT_GENOME_BUILD: GenomeBuild = 'GRCh38';
+
+export interface GeneRegion {
+    gene: string;
+    /** Chromosome without a 'chr' prefix, e.g. '22'. */
+    chrom: string;
+    /** 1-based inclusive coordinates, gene span plus flanking sequence. */
+    start: number;
+    end: number;
+}
+
+const GENE_REGIONS: Record<GenomeBuild, Record<string, Omit<GeneRegion, 'gene'>>> = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../data/gene_regions.json'), 'utf-8'),
+);
+
+// Contig lengths that differ between builds, for VCFs whose header names no assembly.
+const CONTIG_LENGTHS: Record<string, Record<GenomeBuild, number>> = {
+    '1': { GRCh37: 249250621, GRCh38: 248956422 },
+    '6': { GRCh37: 171115067, GRCh38: 170805979 },
+    '10': { GRCh37: 135534747, GRCh38: 133797422 },
+    '12': { GRCh37: 133851895, GRCh38: 133275309 },
+    '22': { GRCh37: 51304566, GRCh38: 50818468 },
+};
+
+export class GeneRegionService {
+    /**
+     * All pharmacogene regions for a genome build.
+     */
+    public getRegions(build: GenomeBuild): GeneRegion[] {
+        return Object.entries(GENE_REGIONS[build] ?? {}).map(([gene, region]) => ({
+            gene,
+            ...region,
+        }));
+    }
+
+    /**
+     * Gene whose region overlaps chrom:pos-end (1-based, inclusive), if any. `end`
+     * defaults to `pos`; structural variants pass their END.
+     */
+    public findGene(build: GenomeBuild, chrom: string, pos: number, end: number = pos): string | undefined {
+        const normalized = this.normalizeChrom(chrom);
+        for (const [gene, region] of Object.entries(GENE_REGIONS[build] ?? {})) {
+            if (region.chrom === normalized && pos <= region.end && end >= region.start) {
+                return gene;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Infer the build from ##reference / ##contig assembly names, then contig lengths.
+     */
+    public inferBuild(
+        reference: string | undefined,
+        contigs: { id: string; length?: number; assembly?: string }[],
+    ): GenomeBuild | undefined {
+        const names = [reference ?? '', ...contigs.map((c) => c.assembly ?? '')].join(' ');
+        const fromName = this.buildFromName(names);
+        if (fromName) return fromName;
+
+        for (const contig of contigs) {
+            const lengths = CONTIG_LENGTHS[this.normalizeChrom(contig.id)];
+            if (!lengths || contig.length === undefined) continue;
+            if (contig.length === lengths.GRCh38) return 'GRCh38';
+            if (contig.length === lengths.GRCh37) return 'GRCh37';
+        }
+        return undefined;
+    }
+
+    /**
+     * Strip the UCSC 'chr' prefix so '22' and 'chr22' compare equal.
+     */
+    public normalizeChrom(chrom: string): string {
+        return chrom.replace(/^chr/i, '');
+    }
+
+    /**
+     * Parse a user-supplied build name (GRCh38, hg38, b37, ...), or undefined if unknown.
+     */
+    public parseBuild(value: unknown): GenomeBuild | undefined {
+        if (typeof value !== 'string') return undefined;
+        const v = value.trim().toLowerCase();
+        if (['grch38', 'hg38', 'b38'].includes(v)) return 'GRCh38';
+        if (['grch37', 'hg19', 'b37'].includes(v)) return 'GRCh37';
+        return undefined;
+    }
+
+    /** Match assembly names inside free text such as a ##reference FASTA path. */
+    private buildFromName(text: string): GenomeBuild | undefined {
+        const t = text.toLowerCase();
+        if (/grch38|hg38|\bb38\b|hs38/.test(t)) return 'GRCh38';
+        if (/grch37|hg19|\bb37\b|hs37|g1k_v37/.test(t)) return 'GRCh37';
+        return undefined;
+    }
+}
+
+export const geneRegionService = new GeneRegionService();
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import type { Readable } from 'stream';
+import type { GenomeBuild } from './geneRegion.service';
+import type { DefiningVariant } from './diplotype.service';
+import { knowledgeBaseService, type KnowledgeBase } from './knowledgeBase.service';
+import { SITES_ONLY_SAMPLE, vcfService, type ParsedVariant, type ParsedVcf } from './vcf.service';
+import { readLines } from '../utils/readLines';
+
+export type ArrayFormat = '23andme' | 'ancestrydna';
+
+interface PgxVariant extends DefiningVariant {
+    gene: string;
+    chrom: string;
+}
+
+export interface ArrayImport {
+    format: ArrayFormat;
+    parsed: ParsedVcf;
+    /** rsIDs whose alleles were reported on the minus strand and complemented. */
+    strandFlipped: string[];
+    /** A/T and C/G SNPs, where strand cannot be checked from the alleles. */
+    strandAmbiguous: string[];
+    /** rsIDs whose alleles match neither strand of the catalogued REF/ALT. */
+    unmatched: string[];
+}
+
+/** Consumer arrays report GRCh37 coordinates unless the caller says otherwise. */
+const DEFAULT_ARRAY_BUILD: GenomeBuild = 'GRCh37';
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+export class GenotypeArrayService {
+    /** rsID -> catalogued SNP, built per knowledge base on first use. */
+    private catalogues = new WeakMap<KnowledgeBase, Record<string, PgxVariant>>();
+
+    /**
+     * Recognise a 23andMe or AncestryDNA raw data file from its first lines.
+     */
+    public detectFormat(head: string): ArrayFormat | undefined {
+        const lines = head.split('\n').map((l) => l.replace(/\r$/, ''));
+
+        if (lines.some((l) => /^rsid\tchromosome\tposition\tallele1\tallele2$/i.test(l))) {
+            return 'ancestrydna';
+        }
+        if (
+            lines.some((l) => /^#\s*rsid\tchromosome\tposition\tgenotype$/i.test(l)) ||
+            (lines[0]?.startsWith('#') && /23andme/i.test(head))
+        ) {
+            return '23andme';
+        }
+        return undefined;
+    }
+
+    /**
+     * Convert the catalogued pharmacogene SNPs of a raw genotype file into variants.
+     * Everything else on the array is skipped. `build` is the build of the file's
+     * coordinates, GRCh37 when not given.
+     */
+    public async parse(
+        input: Readable,
+        format: ArrayFormat,
+        build: GenomeBuild = DEFAULT_ARRAY_BUILD,
+    ): Promise<ArrayImport> {
+        const variants: ParsedVariant[] = [];
+        const strandFlipped: string[] = [];
+        const strandAmbiguous: string[] = [];
+        const unmatched: string[] = [];
+        const catalogue = this.catalogue();
+
+        for await (const raw of readLines(input)) {
+            const line = raw.replace(/\r$/, '');
+            if (!line || line.startsWith('#') || /^rsid\t/i.test(line)) continue;
+
+            const cols = line.split('\t');
+            const [rsId, chrom, position] = cols;
+            const catalogued = rsId ? catalogue[rsId] : undefined;
+            if (!rsId || !chrom || !position || !catalogued) continue;
+
+            const alleles =
+                format === 'ancestrydna'
+                    ? [cols[3] ?? '0', cols[4] ?? '0']
+                    : (cols[3] ?? '--').split('');
+
+            const call = this.toGenotype(alleles, catalogued);
+            if (call === 'unmatched') {
+                unmatched.push(rsId);
+                continue;
+            }
+            if (call.flipped) strandFlipped.push(rsId);
+            if (this.isAmbiguous(catalogued)) strandAmbiguous.push(rsId);
+
+            variants.push({
+                gene: catalogued.gene,
+                geneSource: 'catalog',
+                rsId,
+                chromosome: chrom,
+                position,
+                ref: catalogued.ref,
+                alt: catalogued.alt,
+                qual: null,
+                filter: '.',
+                info: {},
+                genotype: vcfService.parseGenotype(call.gt),
+                sampleFields: { GT: call.gt },
+            });
+        }
+
+        return {
+            format,
+            parsed: {
+                sampleIds: [],
+                sampleCount: 0,
+                variantsBySample: new Map([[SITES_ONLY_SAMPLE, variants]]),
+                header: { contigs: [], info: {}, format: {} },
+                build,
+            },
+            strandFlipped,
+            strandAmbiguous,
+            unmatched,
+        };
+    }
+
+    /**
+     * Map array alleles to a VCF-style GT against the plus-strand REF/ALT,
+     * complementing minus-strand calls. '-', '0' and 'D'/'I' calls are no-calls;
+     * so is a diploid call with one allele missing ("A-"), which says nothing
+     * reliable about the other chromosome. A single allele is a haploid call.
+     */
+    private toGenotype(
+        alleles: string[],
+        variant: PgxVariant,
+    ): { gt: string; flipped: boolean } | 'unmatched' {
+        const called = alleles.map((a) => a.toUpperCase()).filter((a) => /^[ACGT]$/.test(a));
+        if (called.length === 0 || called.length < alleles.length) {
+            return { gt: alleles.length === 1 ? '.' : './.', flipped: false };
+        }
+
+        const index = (bases: string[]) =>
+            bases.map((b) => (b === variant.ref ? 0 : b === variant.alt ? 1 : -1));
+
+        let indices = index(called);
+        let flipped = false;
+        if (indices.includes(-1) && !this.isAmbiguous(variant)) {
+            indices = index(called.map((b) => COMPLEMENT[b] ?? b));
+            flipped = true;
+        }
+        if (indices.includes(-1)) return 'unmatched';
+
+        return { gt: indices.join('/'), flipped };
+    }
+
+    /** The allele-defining positions double as the catalogue of SNPs read from arrays. */
+    private catalogue(): Record<string, PgxVariant> {
+        const kb = knowledgeBaseService.current();
+        let catalogue = this.catalogues.get(kb);
+        if (!catalogue) {
+            catalogue = Object.fromEntries(
+                Object.entries(kb.alleleDefinitions).flatMap(([gene, gd]) =>
+                    Object.entries(gd.variants).map(([rsId, v]) => [rsId, { ...v, gene, chrom: gd.chrom }]),
+                ),
+            );
+            this.catalogues.set(kb, catalogue);
+        }
+        return catalogue;
+    }
+
+    private isAmbiguous(variant: PgxVariant): boolean {
+        return COMPLEMENT[variant.ref] === variant.alt;
+    }
+}
+
+export const genotypeArrayService = new GenotypeArrayService();
@@ -0,0 +1,507 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import z from 'zod';
+import type { DefiningVariant, GeneAlleleDefinitions, GeneFunctionTable } from './diplotype.service';
+import type { DrugDictionaryEntry } from './drugDictionary.service';
+import type { PerpetratorEffect } from './phenoconversion.service';
+import type { PhenotypeRule } from './ruleEngine.service';
+import { normalizeDrugName } from '../utils/normalizeDrugName';
+
+/** Contents of the rule data files. */
+export interface KnowledgeBaseData {
+    /** Drug -> genes, primary gene first. */
+    drugGeneMap: Record<string, string[]>;
+    /** Drug -> rule key -> rule; see ruleTerms for the key syntax. */
+    phenotypeRules: Record<string, Record<string, PhenotypeRule>>;
+    alleleDefinitions: Record<string, GeneAlleleDefinitions>;
+    alleleFunctions: Record<string, GeneFunctionTable>;
+    /** Canonical drug -> names and RxCUIs that resolve to it. */
+    drugDictionary: Record<string, DrugDictionaryEntry>;
+    /** Concomitant drug -> gene -> how it changes that gene's activity. */
+    phenoconversion: Record<string, Record<string, PerpetratorEffect>>;
+}
+
+/** One validated, mutually consistent version of the rule data files. Treat as read-only. */
+export interface KnowledgeBase extends KnowledgeBaseData {
+    /** SHA-256 of the validated contents; identifies the exact rules behind a result. */
+    hash: string;
+}
+
+export type KnowledgeBaseFile = keyof KnowledgeBaseData;
+
+export interface RuleTerm {
+    gene: string | undefined;
+    /** "*" matches any phenotype. */
+    phenotype: string | undefined;
+    /** False for a bare primary-gene phenotype ("PM"). */
+    explicit: boolean;
+}
+
+export class KnowledgeBaseError extends Error {
+    public readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid rule knowledge base:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'KnowledgeBaseError';
+        this.issues = issues;
+    }
+}
+
+/** Allele assumed on every haplotype without a defining variant, unless the gene names its own. */
+export const REFERENCE_ALLELE = '*1';
+
+/** Metabolizer phenotypes from least to most enzyme activity; phenoconversion moves along this scale. */
+export const METABOLIZER_PHENOTYPES = ['PM', 'IM', 'NM', 'RM', 'UM'];
+
+const DATA_DIR = path.join(__dirname, '../data');
+
+const FILES: Record<KnowledgeBaseFile, string> = {
+    drugGeneMap: 'drug_gene_map.json',
+    phenotypeRules: 'phenotype_rules.json',
+    alleleDefinitions: 'allele_definitions.json',
+    alleleFunctions: 'allele_functions.json',
+    drugDictionary: 'drug_dictionary.json',
+    phenoconversion: 'phenoconversion.json',
+};
+
+// Editors often write a file in several steps; wait for them to settle.
+const RELOAD_DEBOUNCE_MS = 200;
+
+const name = z.string().regex(/^[A-Z0-9]+$/, 'Expected an upper-case name');
+const alleleFunction = z.enum(['normal', 'decreased', 'no_function', 'increased', 'uncertain']);
+
+const drugGeneMapSchema = z.record(name, z.array(name).min(1));
+
+const phenotypeRuleSchema: z.ZodType<PhenotypeRule> = z.strictObject({
+    risk_label: z.string().min(1),
+    severity: z.enum(['low', 'medium', 'high', 'critical']),
+    recommendation: z.string().min(1),
+    evidence_level: z.enum(['strong', 'moderate', 'optional']),
+    provenance: z.strictObject({
+        source: z.enum(['CPIC', 'DPWG']),
+        guideline: z.string().min(1),
+        version: z.string().min(1),
+        published: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Expected YYYY-MM or YYYY-MM-DD'),
+        reference: z.string().regex(/^(PMID:\d+|doi:\S+)$/, 'Expected PMID:<id> or doi:<doi>'),
+    }),
+});
+
+const phenotypeRulesSchema = z.record(name, z.record(z.string().min(1), phenotypeRuleSchema));
+
+const definingVariantSchema: z.ZodType<DefiningVariant> = z.strictObject({
+    GRCh37: z.number().int().positive(),
+    GRCh38: z.number().int().positive(),
+    ref: z.string().regex(/^[ACGT]+$/),
+    alt: z.string().regex(/^[ACGT]+$/),
+});
+
+const alleleDefinitionsSchema = z.record(
+    name,
+    z.strictObject({
+        chrom: z.string().min(1),
+        deletion_allele: z.string().min(1).optional(),
+        reference_allele: z.string().min(1).optional(),
+        variants: z.record(z.string().regex(/^rs\d+$/, 'Expected an rsID'), definingVariantSchema),
+        alleles: z.record(z.string().min(1), z.array(z.string()).min(1)),
+    }),
+);
+
+const geneFunctionTableSchema: z.ZodType<GeneFunctionTable> = z
+    .strictObject({
+        method: z.enum(['activity_score', 'function']),
+        alleles: z.record(
+            z.string().min(1),
+            z.strictObject({ function: alleleFunction, activity: z.number().min(0).optional() }),
+        ),
+        activity_phenotypes: z
+            .array(
+                z
+                    .strictObject({
+                        phenotype: z.string().min(1),
+                        min: z.number().min(0),
+                        max: z.number().optional(),
+                    })
+                    .refine((p) => p.max === undefined || p.max >= p.min, 'max is below min'),
+            )
+            .optional(),
+        function_phenotypes: z.record(z.string(), z.string().min(1)).optional(),
+    })
+    .superRefine((table, ctx) => {
+        if (table.method === 'activity_score') {
+            if (!table.activity_phenotypes?.length) {
+                ctx.addIssue({ code: 'custom', message: 'activity_score genes need activity_phenotypes' });
+            }
+            for (const [allele, def] of Object.entries(table.alleles)) {
+                if (def.activity === undefined && def.function !== 'uncertain') {
+                    ctx.addIssue({ code: 'custom', path: ['alleles', allele], message: 'Missing activity value' });
+                }
+            }
+            return;
+        }
+
+        if (!table.function_phenotypes) {
+            ctx.addIssue({ code: 'custom', message: 'function genes need function_phenotypes' });
+            return;
+        }
+        // Looked up with the two functions sorted, so any other spelling never matches.
+        for (const key of Object.keys(table.function_phenotypes)) {
+            const functions = key.split('/');
+            const valid =
+                functions.length === 2 &&
+                functions.every((f) => alleleFunction.safeParse(f).success) &&
+                functions.join('/') === [...functions].sort().join('/');
+            if (!valid) {
+                ctx.addIssue({
+                    code: 'custom',
+                    path: ['function_phenotypes', key],
+                    message: 'Expected two allele functions in alphabetical order, e.g. "no_function/normal"',
+                });
+            }
+        }
+    });
+
+const alleleFunctionsSchema = z.record(name, geneFunctionTableSchema);
+
+const drugDictionarySchema = z.record(
+    name,
+    z.strictObject({
+        rxcui: z.array(z.string().regex(/^\d+$/, 'Expected a numeric RxCUI')),
+        generic_names: z.array(z.string().min(1)),
+        brand_names: z.array(z.string().min(1)),
+        abbreviations: z.array(z.string().min(1)),
+    }),
+);
+
+const phenoconversionSchema = z.record(
+    name,
+    z.record(name, z.enum(['strong_inhibitor', 'moderate_inhibitor', 'strong_inducer', 'moderate_inducer'])),
+);
+
+const SCHEMAS = {
+    drugGeneMap: drugGeneMapSchema,
+    phenotypeRules: phenotypeRulesSchema,
+    alleleDefinitions: alleleDefinitionsSchema,
+    alleleFunctions: alleleFunctionsSchema,
+    drugDictionary: drugDictionarySchema,
+    phenoconversion: phenoconversionSchema,
+};
+
+/**
+ * Rule keys are a phenotype of the drug's primary gene ("PM") or a
+ * "+"-joined combination of GENE:PHENOTYPE terms ("CYP2C9:IM+VKORC1:HS").
+ */
+export function ruleTerms(key: string, primaryGene: string | undefined): RuleTerm[] {
+    return key.split('+').map((term) => {
+        const explicit = term.includes(':');
+        const [gene, phenotype] = explicit ? term.split(':') : [primaryGene, term];
+        return { gene, phenotype, explicit };
+    });
+}
+
+/**
+ * How specific a rule key is, compared element by element: non-wildcard terms,
+ * then terms, then gene-qualified terms (so "VKORC1:IS" beats the shorthand "NM").
+ * The most specific matching key wins.
+ */
+export function ruleSpecificity(terms: RuleTerm[]): [number, number, number] {
+    return [terms.filter((t) => t.phenotype !== '*').length, terms.length, terms.filter((t) => t.explicit).length];
+}
+
+/** Negative, zero or positive as specificity a is below, equal to or above b. */
+export function compareSpecificity(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+        const diff = (a[i] ?? 0) - (b[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+export class KnowledgeBaseService {
+    private snapshot?: KnowledgeBase;
+    private watcher?: fs.FSWatcher;
+    private reloadTimer?: ReturnType<typeof setTimeout>;
+    // Bumped per reload so a slow, older reload cannot overwrite a newer one.
+    private generation = 0;
+
+    /** The knowledge base in effect; loaded on first use. */
+    public current(): KnowledgeBase {
+        return this.snapshot ?? this.load();
+    }
+
+    /**
+     * Read and validate the data files and make them current. Throws
+     * KnowledgeBaseError listing every problem; the server refuses to start on one.
+     */
+    public load(): KnowledgeBase {
+        const sources = Object.fromEntries(
+            Object.entries(FILES).map(([key, file]) => [key, fs.readFileSync(path.join(DATA_DIR, file), 'utf-8')]),
+        ) as Record<KnowledgeBaseFile, string>;
+        this.snapshot = this.parse(sources);
+        return this.snapshot;
+    }
+
+    /**
+     * Re-read the data files and swap them in as one unit. An invalid or
+     * inconsistent set (e.g. a rule file saved before the gene map it needs)
+     * is rejected and the previous knowledge base stays in effect.
+     */
+    public async reload(): Promise<boolean> {
+        const generation = ++this.generation;
+        try {
+            const entries = await Promise.all(
+                Object.entries(FILES).map(
+                    async ([key, file]) => [key, await fs.promises.readFile(path.join(DATA_DIR, file), 'utf-8')] as const,
+                ),
+            );
+            const next = this.parse(Object.fromEntries(entries) as Record<KnowledgeBaseFile, string>);
+            if (generation !== this.generation) return false;
+
+            this.snapshot = next;
+            console.log('Rule knowledge base reloaded.');
+            return true;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Rule knowledge base not reloaded; keeping the previous version.\n${message}`);
+            return false;
+        }
+    }
+
+    /** Reload whenever one of the data files changes. */
+    public watch(): void {
+        if (this.watcher) return;
+
+        const watched = new Set(Object.values(FILES));
+        // The directory is watched rather than the files: editors that save by
+        // renaming a temporary file would otherwise detach a per-file watcher.
+        this.watcher = fs.watch(DATA_DIR, (_event, filename) => {
+            if (!filename || !watched.has(filename)) return;
+            clearTimeout(this.reloadTimer);
+            this.reloadTimer = setTimeout(() => void this.reload(), RELOAD_DEBOUNCE_MS);
+        });
+        // E.g. the data directory was removed or replaced during a deploy. An
+        // unhandled 'error' event would crash the server; serve what we have.
+        this.watcher.on('error', (error) => {
+            console.error(`Rule knowledge base watcher stopped; keeping the current version.\n${error.message}`);
+            this.watcher?.close();
+            this.watcher = undefined;
+        });
+    }
+
+    /** The data files, in the order they are validated and hashed. */
+    public dataFiles(): KnowledgeBaseFile[] {
+        return Object.keys(FILES) as KnowledgeBaseFile[];
+    }
+
+    /** Path of one of the data files. */
+    public filePath(key: KnowledgeBaseFile): string {
+        return path.join(DATA_DIR, FILES[key]);
+    }
+
+    /**
+     * Check parsed data file contents against the schemas, then against each
+     * other. Throws KnowledgeBaseError listing every problem.
+     */
+    public validate(data: Record<KnowledgeBaseFile, unknown>): KnowledgeBase {
+        const issues: string[] = [];
+        const parsed: Partial<KnowledgeBaseData> = {};
+
+        for (const key of Object.keys(FILES) as KnowledgeBaseFile[]) {
+            const result = SCHEMAS[key].safeParse(data[key]);
+            if (!result.success) {
+                for (const issue of result.error.issues) {
+                    issues.push(`${FILES[key]}: ${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`);
+                }
+                continue;
+            }
+            Object.assign(parsed, { [key]: result.data });
+        }
+
+        // Cross-checks only make sense once every file has the right shape.
+        if (issues.length === 0) issues.push(...this.crossCheck(parsed as KnowledgeBaseData));
+        if (issues.length > 0) throw new KnowledgeBaseError(issues);
+
+        // Hashed after parsing, so formatting changes keep the hash; key order
+        // is kept because rule order breaks ties between equally specific rules.
+        const hash = createHash('sha256').update(JSON.stringify(parsed)).digest('hex');
+        return { ...(parsed as KnowledgeBaseData), hash };
+    }
+
+    private parse(sources: Record<KnowledgeBaseFile, string>): KnowledgeBase {
+        const issues: string[] = [];
+        const data: Partial<Record<KnowledgeBaseFile, unknown>> = {};
+
+        for (const key of Object.keys(FILES) as KnowledgeBaseFile[]) {
+            try {
+                data[key] = JSON.parse(sources[key]);
+            } catch (error) {
+                issues.push(`${FILES[key]}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        if (issues.length > 0) throw new KnowledgeBaseError(issues);
+        return this.validate(data as Record<KnowledgeBaseFile, unknown>);
+    }
+
+    /**
+     * References between the files: every mapped gene has allele definitions and
+     * functions, every defined allele has a function, every rule tests a gene
+     * of its drug for a phenotype that gene's table can produce, no drug name
+     * is claimed by two drugs, and every phenoconverting drug has a dictionary
+     * entry and acts on a gene with metabolizer phenotypes.
+     */
+    private crossCheck(kb: KnowledgeBaseData): string[] {
+        const issues: string[] = [];
+        const { drugGeneMap, phenotypeRules, alleleDefinitions, alleleFunctions } = kb;
+
+        for (const [drug, genes] of Object.entries(drugGeneMap)) {
+            for (const gene of genes) {
+                if (!alleleDefinitions[gene]) issues.push(`${FILES.drugGeneMap}: ${drug}: ${gene} has no allele definitions`);
+                if (!alleleFunctions[gene]) issues.push(`${FILES.drugGeneMap}: ${drug}: ${gene} has no allele functions`);
+            }
+            if (!phenotypeRules[drug]) issues.push(`${FILES.drugGeneMap}: ${drug} has no phenotype rules`);
+        }
+
+        for (const [gene, gd] of Object.entries(alleleDefinitions)) {
+            const table = alleleFunctions[gene];
+            if (!table) {
+                issues.push(`${FILES.alleleDefinitions}: ${gene} has no allele functions`);
+                continue;
+            }
+            for (const [allele, rsIds] of Object.entries(gd.alleles)) {
+                for (const rsId of rsIds.filter((id) => !gd.variants[id])) {
+                    issues.push(`${FILES.alleleDefinitions}: ${gene} ${allele}: ${rsId} is not a defining variant`);
+                }
+            }
+            const named = [
+                gd.reference_allele ?? REFERENCE_ALLELE,
+                ...(gd.deletion_allele ? [gd.deletion_allele] : []),
+                ...Object.keys(gd.alleles),
+            ];
+            for (const allele of named.filter((a) => !table.alleles[a])) {
+                issues.push(`${FILES.alleleFunctions}: ${gene} ${allele} is defined but has no function`);
+            }
+        }
+
+        for (const [drug, rules] of Object.entries(phenotypeRules)) {
+            const genes = drugGeneMap[drug];
+            if (!genes) {
+                issues.push(`${FILES.phenotypeRules}: ${drug} is not in ${FILES.drugGeneMap}`);
+                continue;
+            }
+            for (const key of Object.keys(rules)) {
+                for (const { gene, phenotype } of ruleTerms(key, genes[0])) {
+                    if (!gene || !phenotype) {
+                        issues.push(`${FILES.phenotypeRules}: ${drug} "${key}": malformed term`);
+                    } else if (!genes.includes(gene)) {
+                        issues.push(`${FILES.phenotypeRules}: ${drug} "${key}": ${gene} is not mapped to ${drug}`);
+                    } else if (
+                        phenotype !== '*' &&
+                        alleleFunctions[gene] &&
+                        !this.phenotypes(alleleFunctions[gene]).has(phenotype)
+                    ) {
+                        issues.push(`${FILES.phenotypeRules}: ${drug} "${key}": ${gene} never calls ${phenotype}`);
+                    }
+                }
+            }
+        }
+        issues.push(...this.checkRuleTies(kb));
+        issues.push(...this.checkDrugDictionary(kb));
+
+        for (const [drug, genes] of Object.entries(kb.phenoconversion)) {
+            if (!kb.drugDictionary[drug]) issues.push(`${FILES.phenoconversion}: ${drug} is not in ${FILES.drugDictionary}`);
+            for (const gene of Object.keys(genes)) {
+                const table = alleleFunctions[gene];
+                if (!table) {
+                    issues.push(`${FILES.phenoconversion}: ${drug}: ${gene} has no allele functions`);
+                    continue;
+                }
+                const other = [...this.phenotypes(table)].filter((p) => !METABOLIZER_PHENOTYPES.includes(p));
+                if (other.length > 0) {
+                    issues.push(`${FILES.phenoconversion}: ${drug}: ${gene} calls ${other.join(', ')}, not metabolizer phenotypes`);
+                }
+            }
+        }
+        return issues;
+    }
+
+    /** Every name and RxCUI must resolve to exactly one drug. */
+    /**
+     * Two keys that test different genes, can match the same patient and are
+     * equally specific would be decided by file order. Each such pair needs a
+     * more specific key that matches whenever both do (usually their combination).
+     */
+    private checkRuleTies({ drugGeneMap, phenotypeRules }: KnowledgeBaseData): string[] {
+        const issues: string[] = [];
+        for (const [drug, rules] of Object.entries(phenotypeRules)) {
+            const keys = Object.keys(rules).map((key) => {
+                const terms = ruleTerms(key, drugGeneMap[drug]?.[0]);
+                const tested = new Map(terms.filter((t) => t.phenotype !== '*').map((t) => [t.gene, t.phenotype]));
+                return { key, tested, specificity: ruleSpecificity(terms) };
+            });
+            keys.forEach((a, i) => {
+                for (const b of keys.slice(i + 1)) {
+                    if (compareSpecificity(a.specificity, b.specificity) !== 0) continue;
+                    const genesA = [...a.tested.keys()].sort().join('+');
+                    if (genesA === [...b.tested.keys()].sort().join('+')) continue;
+                    // Both match only if they agree on every gene they both test.
+                    const both = new Map(a.tested);
+                    let compatible = true;
+                    for (const [gene, phenotype] of b.tested) {
+                        if (both.has(gene) && both.get(gene) !== phenotype) compatible = false;
+                        both.set(gene, phenotype);
+                    }
+                    if (!compatible) continue;
+                    const resolved = keys.some(
+                        (c) =>
+                            compareSpecificity(c.specificity, a.specificity) > 0 &&
+                            [...c.tested].every(([gene, phenotype]) => both.get(gene) === phenotype),
+                    );
+                    if (!resolved) {
+                        const combination = [...both].map(([gene, phenotype]) => `${gene}:${phenotype}`).join('+');
+                        issues.push(
+                            `${FILES.phenotypeRules}: ${drug} "${a.key}" and "${b.key}" are equally specific and both match ${combination}; add a rule for it`,
+                        );
+                    }
+                }
+            });
+        }
+        return issues;
+    }
+
+    private checkDrugDictionary({ drugGeneMap, drugDictionary }: KnowledgeBaseData): string[] {
+        const issues: string[] = [];
+        const names = new Map<string, string>();
+        const rxcuis = new Map<string, string>();
+        const claim = (owners: Map<string, string>, key: string, drug: string, label: string) => {
+            const owner = owners.get(key);
+            if (owner && owner !== drug) {
+                issues.push(`${FILES.drugDictionary}: ${drug}: ${label} already resolves to ${owner}`);
+            }
+            owners.set(key, owner ?? drug);
+        };
+
+        for (const drug of new Set([...Object.keys(drugGeneMap), ...Object.keys(drugDictionary)])) {
+            claim(names, normalizeDrugName(drug), drug, drug);
+        }
+        for (const [drug, entry] of Object.entries(drugDictionary)) {
+            for (const label of [...entry.generic_names, ...entry.brand_names, ...entry.abbreviations]) {
+                if (!normalizeDrugName(label)) issues.push(`${FILES.drugDictionary}: ${drug}: "${label}" has no letters or digits`);
+                else claim(names, normalizeDrugName(label), drug, `"${label}"`);
+            }
+            for (const id of entry.rxcui) claim(rxcuis, id, drug, `RxCUI ${id}`);
+        }
+        return issues;
+    }
+
+    /** Phenotypes a gene's function table can call. */
+    public phenotypes(table: GeneFunctionTable): Set<string> {
+        return new Set(
+            table.method === 'activity_score'
+                ? (table.activity_phenotypes ?? []).map((p) => p.phenotype)
+                : Object.values(table.function_phenotypes ?? {}),
+        );
+    }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
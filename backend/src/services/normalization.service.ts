@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { geneRegionService, type GenomeBuild } from './geneRegion.service';
+
+interface ReferenceSnippet {
+    /** Chromosome without a 'chr' prefix. */
+    chrom: string;
+    /** 1-based position of the first base in `sequence`. */
+    start: number;
+    sequence: string;
+}
+
+export interface NormalizedAllele {
+    position: number;
+    ref: string;
+    alt: string;
+    /** True when trimming or left-shifting changed the record. */
+    changed: boolean;
+    /**
+     * False for an indel that could not be left-aligned because the bundled
+     * reference sequence does not cover it. Its shared bases are still trimmed,
+     * but it may sit further right than the normalised form of the same indel.
+     */
+    normalized: boolean;
+}
+
+// Reference sequence for the pharmacogene regions, generated from a FASTA by
+// scripts/build-reference-snippets.ts. Outside it we can still trim shared
+// bases, but cannot left-shift indels through repeats.
+const REFERENCE_SNIPPETS: Record<GenomeBuild, ReferenceSnippet[]> = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../data/reference_snippets.json'), 'utf-8'),
+);
+
+export class NormalizationService {
+    /**
+     * Left-align and trim a REF/ALT pair (vt/bcftools norm algorithm), so the same
+     * indel reported by different callers ends up with identical POS/REF/ALT.
+     * Symbolic and breakend alleles are returned unchanged.
+     */
+    public normalize(
+        build: GenomeBuild,
+        chrom: string,
+        position: number,
+        ref: string,
+        alt: string,
+    ): NormalizedAllele {
+        if (!this.isSequenceAllele(ref) || !this.isSequenceAllele(alt) || ref === alt) {
+            return { position, ref, alt, changed: false, normalized: true };
+        }
+
+        let pos = position;
+        let r = ref.toUpperCase();
+        let a = alt.toUpperCase();
+        let normalized = true;
+
+        // Right-trim shared bases, extending left from the reference whenever an
+        // allele would become empty. Without a reference base the indel cannot
+        // be shifted further, so it is trimmed only and flagged.
+        for (;;) {
+            if (r.length > 0 && a.length > 0 && r[r.length - 1] === a[a.length - 1]) {
+                if (r.length === 1 || a.length === 1) {
+                    const base = this.referenceBase(build, chrom, pos - 1);
+                    if (!base) {
+                        normalized = false;
+                        break;
+                    }
+                    r = base + r;
+                    a = base + a;
+                    pos--;
+                }
+                r = r.slice(0, -1);
+                a = a.slice(0, -1);
+                continue;
+            }
+            break;
+        }
+
+        // Left-trim shared leading bases while both alleles keep at least one base.
+        while (r.length >= 2 && a.length >= 2 && r[0] === a[0]) {
+            r = r.slice(1);
+            a = a.slice(1);
+            pos++;
+        }
+
+        const changed = pos !== position || r !== ref.toUpperCase() || a !== alt.toUpperCase();
+        return { position: pos, ref: r, alt: a, changed, normalized };
+    }
+
+    /**
+     * Reference base at a 1-based position, or undefined outside the bundled snippets.
+     */
+    public referenceBase(build: GenomeBuild, chrom: string, position: number): string | undefined {
+        const normalized = geneRegionService.normalizeChrom(chrom);
+        for (const snippet of REFERENCE_SNIPPETS[build] ?? []) {
+            if (snippet.chrom !== normalized) continue;
+            const offset = position - snippet.start;
+            if (offset >= 0 && offset < snippet.sequence.length) {
+                return snippet.sequence[offset]?.toUpperCase();
+            }
+        }
+        return undefined;
+    }
+
+    private isSequenceAllele(allele: string): boolean {
+        return /^[ACGTNacgtn]+$/.test(allele);
+    }
+}
+
+export const normalizationService = new NormalizationService();
@@ -0,0 +1,98 @@
+import { knowledgeBaseService, METABOLIZER_PHENOTYPES } from './knowledgeBase.service';
+import { drugDictionaryService } from './drugDictionary.service';
+
+/** FDA strength classification of a perpetrator drug for one enzyme. */
+export type PerpetratorEffect = 'strong_inhibitor' | 'moderate_inhibitor' | 'strong_inducer' | 'moderate_inducer';
+
+export interface Perpetrator {
+    /** Canonical drug, a phenoconversion.json key. */
+    drug: string;
+    effect: PerpetratorEffect;
+}
+
+/**
+ * A gene whose activity is changed by concomitant medications. phenotype is
+ * the phenotype the rules are matched on; it equals genotype_phenotype when
+ * the change could not be applied (no phenotype called, or already at the limit).
+ */
+export interface Phenoconversion {
+    genotype_phenotype: string;
+    phenotype: string;
+    /** Every medication acting on the gene; the first one decides the phenotype. */
+    perpetrators: Perpetrator[];
+    reason: string;
+}
+
+// Strongest first. Inhibition takes precedence over induction: it acts within
+// days, while induction builds up over weeks.
+const EFFECT_ORDER: PerpetratorEffect[] = ['strong_inhibitor', 'moderate_inhibitor', 'strong_inducer', 'moderate_inducer'];
+
+const EFFECT_LABELS: Record<PerpetratorEffect, string> = {
+    strong_inhibitor: 'strong inhibitor',
+    moderate_inhibitor: 'moderate inhibitor',
+    strong_inducer: 'strong inducer',
+    moderate_inducer: 'moderate inducer',
+};
+
+export class PhenoconversionService {
+    /**
+     * Apply the medications that act on a gene to its genotype phenotype. A
+     * strong inhibitor makes the gene a poor metabolizer, a moderate inhibitor
+     * lowers the phenotype one class and an inducer raises it one class, within
+     * the phenotypes the gene's table can call. Returns undefined when none of
+     * the medications acts on the gene.
+     */
+    public convert(gene: string, genotypePhenotype: string, medications: string[]): Phenoconversion | undefined {
+        const { phenoconversion, alleleFunctions } = knowledgeBaseService.current();
+        const perpetrators = this.perpetrators(medications)
+            .flatMap((drug) => {
+                const effect = phenoconversion[drug]?.[gene];
+                return effect ? [{ drug, effect }] : [];
+            })
+            .sort((a, b) => EFFECT_ORDER.indexOf(a.effect) - EFFECT_ORDER.indexOf(b.effect));
+        const decisive = perpetrators[0];
+        if (!decisive) return undefined;
+
+        const acting = perpetrators
+            .map((p) => `${p.drug.toLowerCase()} is a ${EFFECT_LABELS[p.effect]} of ${gene}`)
+            .join('; ');
+        const unchanged = (why: string): Phenoconversion => ({
+            genotype_phenotype: genotypePhenotype,
+            phenotype: genotypePhenotype,
+            perpetrators,
+            reason: `${acting}. ${why}`,
+        });
+
+        const table = alleleFunctions[gene];
+        const scale = table ? METABOLIZER_PHENOTYPES.filter((p) => knowledgeBaseService.phenotypes(table).has(p)) : [];
+        const index = scale.indexOf(genotypePhenotype);
+        if (index < 0) {
+            return unchanged(`Not applied: no ${gene} metabolizer phenotype was predicted from the genotype.`);
+        }
+
+        const target =
+            decisive.effect === 'strong_inhibitor'
+                ? 0
+                : decisive.effect === 'moderate_inhibitor'
+                  ? Math.max(0, index - 1)
+                  : Math.min(scale.length - 1, index + 1);
+        const phenotype = scale[target]!;
+        if (phenotype === genotypePhenotype) {
+            return unchanged(`The genotype already predicts ${genotypePhenotype}; the phenotype is unchanged.`);
+        }
+
+        return {
+            genotype_phenotype: genotypePhenotype,
+            phenotype,
+            perpetrators,
+            reason: `${acting}. The genotype predicts ${genotypePhenotype}; taken with ${decisive.drug.toLowerCase()}, ${gene} behaves as ${phenotype}.`,
+        };
+    }
+
+    /** Canonical names of the medications, once each. */
+    private perpetrators(medications: string[]): string[] {
+        return [...new Set(medications.map((m) => drugDictionaryService.resolve(m)?.drug ?? m.toUpperCase()))];
+    }
+}
+
+export const phenoconversionService = new PhenoconversionService();
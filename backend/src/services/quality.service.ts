@@ -0,0 +1,145 @@
+import type { ParsedVariant } from './vcf.service';
+
+// Minimum site QUAL, per-sample depth and genotype quality for a call to be used.
+const MIN_QUAL = 20;
+const MIN_DEPTH = 10;
+const MIN_GQ = 20;
+
+export type ExclusionReason = 'failed_filter' | 'low_qual' | 'low_depth' | 'low_gq' | 'no_call';
+
+export interface ExcludedCall {
+    gene: string;
+    rsId: string;
+    chromosome: string;
+    position: string;
+    genotype: string;
+    filter: string;
+    qual: number | null;
+    depth: number | null;
+    genotype_quality: number | null;
+    reasons: ExclusionReason[];
+}
+
+export interface QualityMetrics {
+    /** "PASS" when every call is usable, "WARN" when some were excluded, "FAIL" when all were. */
+    vcf_quality: 'PASS' | 'WARN' | 'FAIL';
+    genotype_completeness: 'High' | 'Medium' | 'Low';
+    total_calls: number;
+    usable_calls: number;
+    failed_filter_count: number;
+    low_qual_count: number;
+    low_depth_count: number;
+    low_gq_count: number;
+    no_call_count: number;
+    /** Fraction of genotyped calls that are no-calls ('./.'). */
+    no_call_rate: number;
+    mean_depth: number | null;
+    thresholds: { min_qual: number; min_depth: number; min_gq: number };
+}
+
+export interface QualityAssessment {
+    /** Calls that may be used for phenotype calling. */
+    passed: ParsedVariant[];
+    /** Calls held back from phenotype calling, with the reasons. */
+    excluded: ExcludedCall[];
+    metrics: QualityMetrics;
+}
+
+export class QualityService {
+    /**
+     * Split pharmacogene calls into usable and low-quality, and summarise QUAL,
+     * FILTER, DP, GQ and no-call rate for the response.
+     */
+    public assess(variants: ParsedVariant[]): QualityAssessment {
+        const passed: ParsedVariant[] = [];
+        const excluded: ExcludedCall[] = [];
+        const counts = { failed_filter: 0, low_qual: 0, low_depth: 0, low_gq: 0, no_call: 0 };
+        const depths: number[] = [];
+        let genotyped = 0;
+
+        for (const v of variants) {
+            const depth = this.numericField(v, 'DP');
+            const gq = this.numericField(v, 'GQ');
+            if (depth !== null) depths.push(depth);
+            if (v.genotype) genotyped++;
+
+            const reasons: ExclusionReason[] = [];
+            // Site QUAL and FILTER rate the ALT allele: confident 0/0 calls and
+            // reference blocks routinely have a low QUAL or FILTER=RefCall, so
+            // they are judged on DP and GQ alone.
+            if (!this.isReferenceCall(v)) {
+                if (v.filter !== 'PASS' && v.filter !== '.') reasons.push('failed_filter');
+                if (v.qual !== null && v.qual < MIN_QUAL) reasons.push('low_qual');
+            }
+            if (depth !== null && depth < MIN_DEPTH) reasons.push('low_depth');
+            if (gq !== null && gq < MIN_GQ) reasons.push('low_gq');
+            // CNV callers often leave GT missing and report the copy number alone.
+            if (v.genotype?.noCall && !this.hasCopyNumber(v)) reasons.push('no_call');
+
+            for (const reason of reasons) counts[reason]++;
+
+            if (reasons.length === 0) {
+                passed.push(v);
+                continue;
+            }
+
+            excluded.push({
+                gene: v.gene,
+                rsId: v.rsId,
+                chromosome: v.chromosome,
+                position: v.position,
+                genotype: v.genotype?.raw ?? '.',
+                filter: v.filter,
+                qual: v.qual,
+                depth,
+                genotype_quality: gq,
+                reasons,
+            });
+        }
+
+        const total = variants.length;
+        const usableRatio = total > 0 ? passed.length / total : 0;
+
+        return {
+            passed,
+            excluded,
+            metrics: {
+                vcf_quality: excluded.length === 0 ? 'PASS' : passed.length === 0 ? 'FAIL' : 'WARN',
+                genotype_completeness: usableRatio >= 0.95 ? 'High' : usableRatio >= 0.8 ? 'Medium' : 'Low',
+                total_calls: total,
+                usable_calls: passed.length,
+                failed_filter_count: counts.failed_filter,
+                low_qual_count: counts.low_qual,
+                low_depth_count: counts.low_depth,
+                low_gq_count: counts.low_gq,
+                no_call_count: counts.no_call,
+                no_call_rate: genotyped > 0 ? Number((counts.no_call / genotyped).toFixed(4)) : 0,
+                mean_depth:
+                    depths.length > 0
+                        ? Number((depths.reduce((a, b) => a + b, 0) / depths.length).toFixed(1))
+                        : null,
+                thresholds: { min_qual: MIN_QUAL, min_depth: MIN_DEPTH, min_gq: MIN_GQ },
+            },
+        };
+    }
+
+    /** gVCF reference block, or a called genotype with REF alleles only. */
+    private isReferenceCall(variant: ParsedVariant): boolean {
+        const genotype = variant.genotype;
+        return !!variant.referenceBlock || (!!genotype && !genotype.noCall && genotype.alleles.every((a) => a === 0));
+    }
+
+    private hasCopyNumber(variant: ParsedVariant): boolean {
+        return !!variant.structural && (this.numericField(variant, 'CN') !== null || variant.structural.copyNumber !== null);
+    }
+
+    /** Read an integer FORMAT field (DP, GQ); null when absent or '.'. */
+    public numericField(variant: ParsedVariant, key: string): number | null {
+        const raw = variant.sampleFields?.[key];
+        if (raw === undefined || raw === '.' || raw === '') return null;
+        const value = Number(raw);
+        return Number.isNaN(value) ? null : value;
+    }
+}
+
+export const qualityService = new QualityService();
@@ -1,125 +1,385 @@
 /** @format */
 
-import fs from "fs";
-import path from "path";
-import type { ParsedVariant } from "./vcf.service";
-
-// Load data files
-const loadJson = (filename: string) => {
-  const filePath = path.join(__dirname, "../data", filename);
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(content);
-  } catch (error) {
-    console.error(`Failed to load ${filename}:`, error);
-    return {};
-  }
-};
+import type { ParsedVariant, Zygosity } from "./vcf.service";
+import type { GenomeBuild } from "./geneRegion.service";
+import {
+  diplotypeService,
+  type AlleleConflict,
+  type Callability,
+  type DiplotypeCall,
+  type VariantAnnotation,
+} from "./diplotype.service";
+import {
+  confidenceService,
+  type ConfidenceBreakdown,
+  type EvidenceLevel,
+} from "./confidence.service";
+import {
+  compareSpecificity,
+  knowledgeBaseService,
+  ruleSpecificity,
+  ruleTerms,
+} from "./knowledgeBase.service";
+import { drugDictionaryService } from "./drugDictionary.service";
+import {
+  phenoconversionService,
+  type Phenoconversion,
+} from "./phenoconversion.service";
+
+export interface DiplotypeCandidateSummary {
+  diplotype: string;
+  phenotype: string | null;
+  activity_score: number | null;
+  mismatch_penalty: number;
+}
+
+/**
+ * "Normal (inferred)": no defining ALT allele and every defining position
+ * called, so the reference diplotype is assumed. "Indeterminate": no ALT
+ * allele, but some positions have no usable call. "Not tested": none do.
+ */
+export type CallabilityStatus =
+  | "Called"
+  | "Normal (inferred)"
+  | "Indeterminate"
+  | "Not tested";
 
-const DRUG_GENE_MAP = loadJson("drug_gene_map.json");
-const GENE_VARIANT_MAP = loadJson("gene_variant_map.json");
-const PHENOTYPE_RULES = loadJson("phenotype_rules.json");
+export interface GeneCallability {
+  status: CallabilityStatus;
+  /** Defining positions (rsIDs) called REF or ALT. */
+  interrogated: string[];
+  /** Defining positions without a record, or with a no-call / low-quality call. */
+  missing: string[];
+}
+
+/**
+ * Phenotype call for one of the drug's genes. phenotype is "Unknown" when no
+ * diplotype could be called (callability says why) and "Indeterminate" when
+ * the alleles do not determine one. Concomitant medications can change it
+ * from genotype_phenotype (phenoconversion); the rules see phenotype.
+ */
+export interface GeneResult {
+  gene: string;
+  phenotype: string;
+  /** Phenotype predicted from the genotype alone. */
+  genotype_phenotype: string;
+  /** Medications acting on the gene, and how they changed its phenotype. */
+  phenoconversion?: Phenoconversion;
+  /** Called diplotype, e.g. "*1/*4". */
+  diplotype?: string;
+  /** Sum of allele activity values; null for genes not scored by activity. */
+  activity_score?: number | null;
+  /** False when more than one phase arrangement was possible. */
+  phased?: boolean;
+  /** Total gene copies from structural-variant calls; null when none were made. */
+  copy_number?: number | null;
+  /** Ranked diplotypes consistent with the calls; the first is reported. */
+  diplotype_candidates?: DiplotypeCandidateSummary[];
+  zygosity?: Zygosity;
+  callability: GeneCallability;
+  /** Every called variant in the gene, with its mapping status. */
+  variants: VariantAnnotation[];
+  /** Equally good diplotypes and INFO/STAR disagreements, with how each was resolved. */
+  conflicts: AlleleConflict[];
+}
 
 export interface Recommendation {
   risk_label: string;
   severity: string;
   recommendation: string;
+  /** Primary gene's phenotype after phenoconversion. */
   phenotype?: string;
+  /** Primary gene's phenotype predicted from the genotype alone. */
+  genotype_phenotype?: string;
+  phenoconversion?: Phenoconversion;
   gene?: string;
   detected_variant?: string;
+  /** Called diplotype, e.g. "*1/*4". */
+  diplotype?: string;
+  /** Sum of allele activity values; null for genes not scored by activity. */
+  activity_score?: number | null;
+  /** False when more than one phase arrangement was possible. */
+  phased?: boolean;
+  /** Total gene copies from structural-variant calls; null when none were made. */
+  copy_number?: number | null;
+  /** Ranked diplotypes consistent with the calls; the first is reported. */
+  diplotype_candidates?: DiplotypeCandidateSummary[];
+  zygosity?: Zygosity;
+  /** Primary gene's callability. */
+  callability?: GeneCallability;
+  /** One entry per gene the drug is mapped to, primary gene first. */
+  gene_results?: GeneResult[];
+  /** phenotype_rules.json key that produced the recommendation. */
+  matched_rule?: string;
+  /** Classification of the matched rule's recommendation. */
+  evidence_level?: EvidenceLevel;
+  /** Guideline behind the matched rule. */
+  provenance?: RuleProvenance;
+  /** Hash of the knowledge base the result was evaluated against. */
+  knowledge_base_hash: string;
   confidence_score?: number;
+  /** Factors behind confidence_score. */
+  confidence_breakdown?: ConfidenceBreakdown;
 }
 
-export class RuleEngineService {
-  public evaluate(drug: string, variants: ParsedVariant[]): Recommendation {
-    const upperDrug = drug.toUpperCase();
-    const targetGene = DRUG_GENE_MAP[upperDrug];
-
-    if (!targetGene) {
-      return this.createUnknown("Drug not supported or mapped to a gene.", 0.1);
-    }
-
-    // Find if we have any variant for this gene
-    const geneVariants = variants.filter((v) => v.gene === targetGene);
-
-    // Simplification: Take the first matching variant that has a phenotype map.
-    // In reality, diplotype calling (combining two alleles) is complex.
-    // For this hackathon:
-    // 1. Check if Star Allele exists in map
-    // 2. Check if RS ID exists in map
-
-    let detectedPhenotype = "NM"; // Default to Normal Metabolizer if no specific variant found (simplistic assumption for wild type, but safer to say Unknown if strictly variant-driven. However, absence of variants often implies *1/Wild Type in these VCFs if they are comprehensive. I will return Unknown if no variant found in VCF for the gene at all? User said "Return Unknown if no phenotype found")
-
-    // Actually, "Return Unknown if no phenotype found".
-    // I will try to match.
+export interface RuleProvenance {
+  source: "CPIC" | "DPWG";
+  guideline: string;
+  version: string;
+  /** Publication date, YYYY-MM or YYYY-MM-DD. */
+  published: string;
+  /** Literature reference, e.g. "PMID:35034351". */
+  reference: string;
+}
 
-    let matchedVariantStr = "";
-    let foundPhenotype = null;
+export interface PhenotypeRule {
+  risk_label: string;
+  severity: string;
+  recommendation: string;
+  evidence_level: EvidenceLevel;
+  provenance: RuleProvenance;
+}
 
-    for (const v of geneVariants) {
-      const geneMap = GENE_VARIANT_MAP[targetGene];
-      if (!geneMap) continue;
+export class RuleEngineService {
+  /** Drugs with a gene mapping, in drug_gene_map.json order. */
+  public supportedDrugs(): string[] {
+    return Object.keys(knowledgeBaseService.current().drugGeneMap);
+  }
 
-      // Check STAR
-      if (v.starAllele && geneMap[v.starAllele]) {
-        foundPhenotype = geneMap[v.starAllele];
-        matchedVariantStr = v.starAllele;
-        break;
-      }
+  /**
+   * `medications` are the patient's concomitant drugs (any name the drug
+   * dictionary resolves); inhibitors and inducers among them phenoconvert
+   * the genes they act on before the rules are matched.
+   */
+  public evaluate(
+    drug: string,
+    variants: ParsedVariant[],
+    build: GenomeBuild,
+    medications: string[] = [],
+  ): Recommendation {
+    const { drugGeneMap, phenotypeRules, hash } = knowledgeBaseService.current();
+    const upperDrug =
+      drugDictionaryService.resolve(drug)?.drug ?? drug.toUpperCase();
+    const genes = drugGeneMap[upperDrug];
 
-      // Check RS
-      if (v.rsId && geneMap[v.rsId]) {
-        foundPhenotype = geneMap[v.rsId];
-        matchedVariantStr = v.rsId;
-        break;
-      }
+    if (!genes || genes.length === 0) {
+      return this.createUnknown(
+        "Drug not supported or mapped to a gene.",
+        0.1,
+        hash,
+      );
     }
 
-    if (!foundPhenotype) {
-      // If we have variants for the gene but no match -> Limited mapping (0.7)
-      // If we processed gene but found no variants (Wild Type?) -> could be high confidence if complete VCF, but here we say Unknown/No Variance Detected.
-      // Requirement: "If no variant -> 0.2"
-      return this.createUnknown(
-        "No pharmacogenomic variants detected for this drug/gene pair.",
-        0.2,
+    // Each gene is called on its own; the rules then see every gene's phenotype.
+    const calls = new Map<string, DiplotypeCall | null>();
+    const geneResults = genes.map((gene) => {
+      // Reference (0/0) rows are kept: a defining position called REF rules
+      // alleles out, and a gene called REF throughout is inferred normal.
+      const geneVariants = variants.filter((v) => v.gene === gene);
+      const call = diplotypeService.call(gene, geneVariants, build);
+      calls.set(gene, call);
+      return this.phenoconvert(
+        this.geneResult(
+          gene,
+          call,
+          call?.callability ??
+            diplotypeService.callability(gene, geneVariants, build),
+          diplotypeService.annotate(gene, geneVariants, build, call),
+        ),
+        medications,
       );
+    });
+    const primary = geneResults[0]!;
+
+    if (geneResults.every((r) => !r.diplotype)) {
+      // No ALT allele, and the gene was not fully covered.
+      const { status, interrogated, missing } = primary.callability;
+      const notTested = status === "Not tested";
+      return {
+        ...this.createUnknown(
+          notTested
+            ? `${primary.gene} was not tested: none of its defining positions has a usable call in this file.`
+            : `No variant at the ${interrogated.length} called ${primary.gene} defining positions, but ${missing.join(", ")} had no usable call; a variant there cannot be ruled out.`,
+          notTested ? 0.1 : 0.2,
+          hash,
+        ),
+        gene: primary.gene,
+        callability: primary.callability,
+        gene_results: geneResults,
+      };
     }
 
+    const profile = {
+      ...primary,
+      detected_variant: primary.diplotype,
+      gene_results: geneResults,
+    };
+
     // Look up rule
-    const drugRules = PHENOTYPE_RULES[upperDrug];
+    const drugRules = phenotypeRules[upperDrug];
     if (!drugRules) {
-      return this.createUnknown("No rules defined for this drug.", 0.1);
+      return this.createUnknown("No rules defined for this drug.", 0.1, hash);
     }
 
-    const rule = drugRules[foundPhenotype];
-    if (!rule) {
+    const called = [...calls.values()].filter(
+      (c): c is DiplotypeCall => c !== null,
+    );
+    const match = this.matchRule(drugRules, geneResults);
+    if (!match) {
+      const confidence = confidenceService.score(called, null);
       return {
         risk_label: "Unknown Phenotype Impact",
         severity: "low",
-        recommendation: "Phenotype detected but no specific rule found.",
-        phenotype: foundPhenotype,
-        gene: targetGene,
-        detected_variant: matchedVariantStr,
-        confidence_score: 0.7,
+        recommendation:
+          primary.phenotype === "Indeterminate"
+            ? "Diplotype detected but its allele functions do not determine a phenotype."
+            : "Phenotype detected but no specific rule found.",
+        ...profile,
+        confidence_score: confidence.score,
+        confidence_breakdown: confidence,
+        knowledge_base_hash: hash,
       };
     }
 
+    // Only the genes whose phenotype the rule actually tests count.
+    const confidence = confidenceService.score(
+      called.filter((c) => match.genes.includes(c.gene)),
+      match.rule.evidence_level,
+    );
     return {
-      ...rule,
-      phenotype: foundPhenotype,
-      gene: targetGene,
-      detected_variant: matchedVariantStr,
-      confidence_score: 0.9 + Math.random() * 0.05,
+      ...match.rule,
+      ...profile,
+      matched_rule: match.key,
+      confidence_score: confidence.score,
+      confidence_breakdown: confidence,
+      knowledge_base_hash: hash,
     };
   }
 
-  private createUnknown(reason: string, score: number): Recommendation {
+  /**
+   * Summarise a gene's diplotype call; the phenotype follows from the allele
+   * functions / activity score rather than from any single variant.
+   */
+  private geneResult(
+    gene: string,
+    call: DiplotypeCall | null,
+    { interrogated, missing }: Callability,
+    report: Pick<GeneResult, "variants" | "conflicts">,
+  ): GeneResult {
+    const status: CallabilityStatus = call
+      ? call.inferred
+        ? "Normal (inferred)"
+        : "Called"
+      : interrogated.length > 0
+        ? "Indeterminate"
+        : "Not tested";
+    const callability = { status, interrogated, missing };
+
+    if (!call) {
+      return {
+        gene,
+        phenotype: "Unknown",
+        genotype_phenotype: "Unknown",
+        callability,
+        ...report,
+      };
+    }
+
+    const phenotype = call.phenotype ?? "Indeterminate";
+    return {
+      gene,
+      phenotype,
+      genotype_phenotype: phenotype,
+      diplotype: call.diplotype,
+      activity_score: call.activityScore,
+      phased: call.phased,
+      copy_number: call.copyNumber,
+      diplotype_candidates: call.candidates.map((c) => ({
+        diplotype: c.diplotype,
+        phenotype: c.phenotype,
+        activity_score: c.activityScore,
+        mismatch_penalty: c.penalty,
+      })),
+      zygosity: call.variants[0]?.genotype?.zygosity,
+      callability,
+      ...report,
+    };
+  }
+
+  /** Replace the genotype phenotype with the phenoconverted one, if any. */
+  private phenoconvert(result: GeneResult, medications: string[]): GeneResult {
+    const conversion = phenoconversionService.convert(
+      result.gene,
+      result.genotype_phenotype,
+      medications,
+    );
+    return conversion
+      ? {
+          ...result,
+          phenotype: conversion.phenotype,
+          phenoconversion: conversion,
+        }
+      : result;
+  }
+
+  /**
+   * Rule keys are a phenotype of the drug's primary gene ("PM") or a
+   * "+"-joined combination of GENE:PHENOTYPE terms ("CYP2C9:IM+VKORC1:HS"),
+   * where "*" matches any phenotype. The most specific matching key wins:
+   * most non-wildcard terms, then most terms, then most gene-qualified terms.
+   * The knowledge base check rejects keys that would still tie across genes.
+   */
+  private matchRule(
+    rules: Record<string, PhenotypeRule>,
+    geneResults: GeneResult[],
+  ): { key: string; rule: PhenotypeRule; genes: string[] } | undefined {
+    const phenotypes = new Map(geneResults.map((r) => [r.gene, r.phenotype]));
+    const primaryGene = geneResults[0]?.gene;
+
+    let best:
+      | {
+          key: string;
+          rule: PhenotypeRule;
+          genes: string[];
+          rank: number[];
+        }
+      | undefined;
+    for (const [key, rule] of Object.entries(rules)) {
+      const terms = ruleTerms(key, primaryGene);
+
+      const matches = terms.every(
+        (t) =>
+          !!t.gene &&
+          phenotypes.has(t.gene) &&
+          (t.phenotype === "*" || phenotypes.get(t.gene) === t.phenotype),
+      );
+      if (!matches) continue;
+
+      const tested = terms.filter((t) => t.phenotype !== "*");
+      const rank = ruleSpecificity(terms);
+      if (!best || compareSpecificity(rank, best.rank) > 0) {
+        best = { key, rule, genes: tested.map((t) => t.gene!), rank };
+      }
+    }
+    return best && { key: best.key, rule: best.rule, genes: best.genes };
+  }
+
+  private createUnknown(
+    reason: string,
+    score: number,
+    knowledgeBaseHash: string,
+  ): Recommendation {
     return {
       risk_label: "Unknown",
       severity: "low",
       recommendation: reason,
       phenotype: "Unknown",
       confidence_score: score,
+      confidence_breakdown: confidenceService.fixed(
+        score,
+        "Fixed score: no phenotype could be called.",
+      ),
+      knowledge_base_hash: knowledgeBaseHash,
     };
   }
 }
@@ -0,0 +1,291 @@
+import fs from 'fs';
+import { gunzipSync, inflateRawSync } from 'zlib';
+
+/**
+ * Virtual file offset into a BGZF file: compressed block offset + offset inside the
+ * uncompressed block. Stored as a double (coffset * 2^16 + uoffset), exact for
+ * files up to 128 GB compressed.
+ */
+type VirtualOffset = number;
+
+interface Chunk {
+    beg: VirtualOffset;
+    end: VirtualOffset;
+}
+
+interface RefIndex {
+    bins: Map<number, Chunk[]>;
+    /** TBI linear index: smallest virtual offset per 16 kb window. Empty for CSI. */
+    linear: VirtualOffset[];
+}
+
+export interface TabixIndex {
+    format: 'TBI' | 'CSI';
+    minShift: number;
+    depth: number;
+    /** Sequence names as written in the index (e.g. 'chr22' or '22'). */
+    names: string[];
+    refs: RefIndex[];
+}
+
+/** Raised for unreadable or unsupported index files; surfaced to clients as a 400. */
+export class TabixIndexError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TabixIndexError';
+    }
+}
+
+const readVirtualOffset = (buf: Buffer, pos: number): VirtualOffset =>
+    buf.readUInt32LE(pos + 4) * 2 ** 32 + buf.readUInt32LE(pos);
+
+const coffset = (v: VirtualOffset): number => Math.floor(v / 65536);
+const uoffset = (v: VirtualOffset): number => v % 65536;
+
+export class TabixService {
+    /**
+     * Parse a .tbi or .csi index. Both are BGZF-compressed binary files.
+     */
+    public parseIndex(raw: Buffer): TabixIndex {
+        let buf: Buffer;
+        try {
+            buf = gunzipSync(raw);
+        } catch {
+            throw new TabixIndexError('Index file is not BGZF-compressed.');
+        }
+
+        const magic = buf.toString('latin1', 0, 4);
+        try {
+            if (magic === 'TBI\x01') return this.parseTbi(buf);
+            if (magic === 'CSI\x01') return this.parseCsi(buf);
+        } catch (error) {
+            if (error instanceof TabixIndexError) throw error;
+            throw new TabixIndexError('Index file is truncated or corrupt.');
+        }
+        throw new TabixIndexError('Index file is neither a tabix (.tbi) nor a CSI (.csi) index.');
+    }
+
+    /**
+     * Return the uncompressed text lines of a BGZF file that overlap chrom:start-end
+     * (1-based, inclusive). Lines are returned in file order; callers should still
+     * check POS since index bins are coarser than the query.
+     */
+    public async queryLines(
+        filePath: string,
+        index: TabixIndex,
+        chrom: string,
+        start: number,
+        end: number,
+    ): Promise<string[]> {
+        const refId = index.names.indexOf(chrom);
+        const ref = index.refs[refId];
+        if (refId < 0 || !ref) return [];
+
+        const chunks = this.chunksForRegion(index, ref, start - 1, end);
+        if (chunks.length === 0) return [];
+
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const lines: string[] = [];
+            for (const chunk of chunks) {
+                const text = await this.readChunk(handle, chunk);
+                for (const line of text.split('\n')) {
+                    if (line) lines.push(line);
+                }
+            }
+            return lines;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private parseTbi(buf: Buffer): TabixIndex {
+        let pos = 4;
+        const nRef = buf.readInt32LE(pos);
+        pos += 4;
+        // format, col_seq, col_beg, col_end, meta, skip: fixed for VCF, not needed here.
+        pos += 6 * 4;
+        const lNm = buf.readInt32LE(pos);
+        pos += 4;
+        const names = this.parseNames(buf, pos, lNm);
+        pos += lNm;
+
+        const refs: RefIndex[] = [];
+        for (let r = 0; r < nRef; r++) {
+            const bins = new Map<number, Chunk[]>();
+            const nBin = buf.readInt32LE(pos);
+            pos += 4;
+            for (let b = 0; b < nBin; b++) {
+                const bin = buf.readUInt32LE(pos);
+                const nChunk = buf.readInt32LE(pos + 4);
+                pos += 8;
+                const chunks: Chunk[] = [];
+                for (let c = 0; c < nChunk; c++) {
+                    chunks.push({ beg: readVirtualOffset(buf, pos), end: readVirtualOffset(buf, pos + 8) });
+                    pos += 16;
+                }
+                bins.set(bin, chunks);
+            }
+
+            const nIntv = buf.readInt32LE(pos);
+            pos += 4;
+            const linear: VirtualOffset[] = [];
+            for (let i = 0; i < nIntv; i++) {
+                linear.push(readVirtualOffset(buf, pos));
+                pos += 8;
+            }
+
+            refs.push({ bins, linear });
+        }
+
+        return { format: 'TBI', minShift: 14, depth: 5, names, refs };
+    }
+
+    private parseCsi(buf: Buffer): TabixIndex {
+        let pos = 4;
+        const minShift = buf.readInt32LE(pos);
+        const depth = buf.readInt32LE(pos + 4);
+        const lAux = buf.readInt32LE(pos + 8);
+        pos += 12;
+
+        // For VCFs the aux block carries the tabix header (6 ints, l_nm, names).
+        const names = lAux >= 28 ? this.parseNames(buf, pos + 28, buf.readInt32LE(pos + 24)) : [];
+        pos += lAux;
+
+        const nRef = buf.readInt32LE(pos);
+        pos += 4;
+
+        const refs: RefIndex[] = [];
+        for (let r = 0; r < nRef; r++) {
+            const bins = new Map<number, Chunk[]>();
+            const nBin = buf.readInt32LE(pos);
+            pos += 4;
+            for (let b = 0; b < nBin; b++) {
+                const bin = buf.readUInt32LE(pos);
+                // Skip loffset (8 bytes); chunk ranges are enough for correctness.
+                const nChunk = buf.readInt32LE(pos + 12);
+                pos += 16;
+                const chunks: Chunk[] = [];
+                for (let c = 0; c < nChunk; c++) {
+                    chunks.push({ beg: readVirtualOffset(buf, pos), end: readVirtualOffset(buf, pos + 8) });
+                    pos += 16;
+                }
+                bins.set(bin, chunks);
+            }
+            refs.push({ bins, linear: [] });
+        }
+
+        return { format: 'CSI', minShift, depth, names, refs };
+    }
+
+    private parseNames(buf: Buffer, pos: number, length: number): string[] {
+        return buf
+            .toString('utf-8', pos, pos + length)
+            .split('\0')
+            .filter((name) => !!name);
+    }
+
+    /**
+     * Bins overlapping [beg, end) (0-based, half-open), as in htslib's reg2bins.
+     */
+    private reg2bins(beg: number, end: number, minShift: number, depth: number): number[] {
+        const bins: number[] = [];
+        end -= 1;
+        for (let level = 0, t = 0, shift = minShift + depth * 3; level <= depth; level++) {
+            const first = t + Math.floor(beg / 2 ** shift);
+            const last = t + Math.floor(end / 2 ** shift);
+            for (let bin = first; bin <= last; bin++) bins.push(bin);
+            t += 2 ** (level * 3);
+            shift -= 3;
+        }
+        return bins;
+    }
+
+    /**
+     * Collect, filter and merge the chunks that may hold records in [beg, end).
+     */
+    private chunksForRegion(index: TabixIndex, ref: RefIndex, beg: number, end: number): Chunk[] {
+        const minOffset = ref.linear.length
+            ? ref.linear[Math.min(beg >> 14, ref.linear.length - 1)] ?? 0
+            : 0;
+
+        const chunks = this.reg2bins(beg, end, index.minShift, index.depth)
+            .flatMap((bin) => ref.bins.get(bin) ?? [])
+            .filter((chunk) => chunk.end > minOffset)
+            .sort((a, b) => a.beg - b.beg);
+
+        const merged: Chunk[] = [];
+        for (const chunk of chunks) {
+            const last = merged[merged.length - 1];
+            if (last && chunk.beg <= last.end) {
+                last.end = Math.max(last.end, chunk.end);
+            } else {
+                merged.push({ ...chunk });
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Decompress the BGZF blocks spanned by a chunk and cut out its text.
+     */
+    private async readChunk(handle: fs.promises.FileHandle, chunk: Chunk): Promise<string> {
+        const parts: Buffer[] = [];
+        let block = coffset(chunk.beg);
+        const lastBlock = coffset(chunk.end);
+        let lastBlockStart = 0;
+        let total = 0;
+
+        while (block <= lastBlock) {
+            const { data, size } = await this.readBlock(handle, block);
+            if (size === 0) break; // EOF
+            lastBlockStart = total;
+            parts.push(data);
+            total += data.length;
+            block += size;
+        }
+
+        const text = Buffer.concat(parts);
+        const endPos = coffset(chunk.end) < block ? lastBlockStart + uoffset(chunk.end) : text.length;
+        return text.toString('utf-8', uoffset(chunk.beg), endPos);
+    }
+
+    private async readBlock(
+        handle: fs.promises.FileHandle,
+        offset: number,
+    ): Promise<{ data: Buffer; size: number }> {
+        const header = Buffer.alloc(18);
+        const { bytesRead } = await handle.read(header, 0, 18, offset);
+        if (bytesRead < 18) return { data: Buffer.alloc(0), size: 0 };
+
+        // BGZF block size lives in the 'BC' extra subfield: BSIZE = total size - 1.
+        const xlen = header.readUInt16LE(10);
+        const extra = Buffer.alloc(xlen);
+        await handle.read(extra, 0, xlen, offset + 12);
+        let bsize = -1;
+        for (let p = 0; p + 4 <= xlen; ) {
+            const slen = extra.readUInt16LE(p + 2);
+            if (extra[p] === 0x42 && extra[p + 1] === 0x43 && slen === 2) {
+                bsize = extra.readUInt16LE(p + 4) + 1;
+                break;
+            }
+            p += 4 + slen;
+        }
+        if (bsize < 0) throw new TabixIndexError('VCF is not BGZF-compressed; tabix queries need bgzip output.');
+
+        const block = Buffer.alloc(bsize);
+        await handle.read(block, 0, bsize, offset);
+        // Deflate payload sits between the header+extra and the 8-byte CRC32/ISIZE trailer.
+        let data: Buffer;
+        try {
+            data = inflateRawSync(block.subarray(12 + xlen, bsize - 8));
+        } catch (error) {
+            throw new TabixIndexError(
+                `BGZF block at offset ${offset} could not be decompressed: ${(error as Error).message}`,
+            );
+        }
+        return { data, size: bsize };
+    }
+}
+
+export const tabixService = new TabixService();
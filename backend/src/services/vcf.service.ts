@@ -1,3 +1,10 @@
+import fs from 'fs';
+import type { Readable } from 'stream';
+import { createGunzip, gunzipSync } from 'zlib';
+import { DEFAULT_GENOME_BUILD, geneRegionService, type GenomeBuild } from './geneRegion.service';
+import { normalizationService } from './normalization.service';
+import { tabixService, TabixIndexError, type TabixIndex } from './tabix.service';
+import { readLines } from '../utils/readLines';
 
 const TARGET_GENES = new Set([
     'CYP2D6',
@@ -6,38 +13,507 @@ const TARGET_GENES = new Set([
     'SLCO1B1',
     'TPMT',
     'DPYD',
+    'VKORC1',
+    'CYP4F2',
+    'NUDT15',
 ]);
 
+// ALT values that name no actual allele: gVCF <NON_REF> (GATK) / <*> (bcftools),
+// and '.' on the reference rows of an all-sites VCF.
+const NON_REF_ALLELES = new Set(['<NON_REF>', '<*>', '.']);
+
+export type Zygosity =
+    | 'homozygous_ref'
+    | 'heterozygous'
+    | 'homozygous_alt'
+    | 'hemizygous'
+    | 'no_call';
+
+export interface Genotype {
+    raw: string;
+    /** Allele indices (0 = REF, 1.. = ALT); null for a missing allele ('.'). */
+    alleles: (number | null)[];
+    phased: boolean;
+    /** True when any allele is missing, e.g. './.' or './1'. */
+    noCall: boolean;
+    zygosity: Zygosity;
+}
+
+export type StructuralVariantType = 'DEL' | 'DUP' | 'CNV';
+
+export interface StructuralVariant {
+    type: StructuralVariantType;
+    /** Last affected base (INFO/END, or POS + |SVLEN|). */
+    end: number;
+    /**
+     * Total copy number from INFO/CN or a <CNn> ALT. Per-sample FORMAT/CN, when
+     * present, is in sampleFields and takes precedence.
+     */
+    copyNumber: number | null;
+}
+
 export interface ParsedVariant {
     gene: string;
+    /**
+     * Whether the gene came from INFO/GENE, the gene-region table, or (for
+     * genotyping-array imports) the rsID catalog.
+     */
+    geneSource: 'info' | 'coordinates' | 'catalog';
     rsId: string;
     starAllele?: string;
     chromosome: string;
     position: string;
     ref: string;
     alt: string;
+    /** Phred-scaled QUAL; null when missing ('.'). */
+    qual: number | null;
+    /** Raw FILTER column: 'PASS', '.', or semicolon-separated failed filter names. */
+    filter: string;
     info: Record<string, string>;
+    /**
+     * The record as written in the VCF, set when it was split from a multi-allelic
+     * row or changed by normalisation. altIndex is the 1-based ALT index.
+     */
+    original?: { position: string; ref: string; alt: string; altIndex: number };
+    /**
+     * Set for an indel that could not be left-aligned: the bundled reference
+     * sequence does not cover the bases it would shift through.
+     */
+    unnormalized?: true;
+    /** Set for symbolic-ALT structural variants (<DEL>, <DUP>, <CNV>, <CNn>). */
+    structural?: StructuralVariant;
+    /**
+     * Set for gVCF reference blocks (ALT is only <NON_REF> / <*>) and all-sites
+     * reference rows (ALT '.'): the genotype applies to every base POS..end.
+     */
+    referenceBlock?: { end: number };
+    /** Sample column this call was read from; unset for sites-only VCFs. */
+    sampleId?: string;
+    genotype?: Genotype;
+    /** Per-sample FORMAT fields (GT, DP, GQ, ...) keyed by FORMAT ID. */
+    sampleFields?: Record<string, string>;
+}
+
+export interface VcfFieldDefinition {
+    id: string;
+    number?: string;
+    type?: string;
+    description?: string;
+}
+
+export interface VcfContig {
+    id: string;
+    length?: number;
+    assembly?: string;
+}
+
+export interface VcfHeader {
+    /** Value of ##fileformat, e.g. 'VCFv4.2'. */
+    fileformat?: string;
+    /** Value of ##reference (often a FASTA path or assembly name). */
+    reference?: string;
+    contigs: VcfContig[];
+    info: Record<string, VcfFieldDefinition>;
+    format: Record<string, VcfFieldDefinition>;
+    /** Column names from the #CHROM line, if present. */
+    columns?: string[];
+    /** Build inferred from ##reference / ##contig lines. */
+    inferredBuild?: GenomeBuild;
+}
+
+export interface ParsedVcf {
+    /** Sample IDs in column order (after any subset selection). Empty for sites-only VCFs. */
+    sampleIds: string[];
+    /** Samples in the file, before any subset selection. */
+    sampleCount: number;
+    /** Variants per sample ID; a sites-only VCF yields a single SITES_ONLY_SAMPLE entry. */
+    variantsBySample: Map<string, ParsedVariant[]>;
+    header: VcfHeader;
+    /** Build used for coordinate-based gene assignment. */
+    build: GenomeBuild;
+}
+
+export interface VcfValidationIssue {
+    severity: 'error' | 'warning';
+    code: string;
+    message: string;
+    /** 1-based line number, when the issue is tied to a line. */
+    line?: number;
+}
+
+export interface VcfValidationReport {
+    /** True when no errors were found (warnings are allowed). */
+    valid: boolean;
+    fileformat: string | null;
+    genome_build: GenomeBuild | null;
+    samples: string[];
+    total_lines: number;
+    record_count: number;
+    info_definitions: string[];
+    format_definitions: string[];
+    error_count: number;
+    warning_count: number;
+    issues: VcfValidationIssue[];
+    /** True when more issues were found than MAX_REPORTED_ISSUES. */
+    issues_truncated: boolean;
+}
+
+export interface ParseVcfOptions {
+    /** Restrict parsing to these sample IDs. Unknown IDs raise a VcfParseError. */
+    samples?: string[];
+    /** Build used to assign genes by CHROM/POS when INFO/GENE is absent. Defaults to GRCh38. */
+    build?: GenomeBuild;
 }
 
+/** Key used in ParsedVcf.variantsBySample for VCFs without sample columns. */
+export const SITES_ONLY_SAMPLE = '';
+
+const FIXED_COLUMNS = ['#CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO'];
+
+/** Cap on issues listed in a validation report; counts still cover every issue. */
+const MAX_REPORTED_ISSUES = 200;
+
+/** Raised for VCF input the parser cannot work with; surfaced to clients as a 400. */
+export class VcfParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VcfParseError';
+    }
+}
+
+export type VcfCompression = 'none' | 'gzip' | 'bgzf';
+
 export class VcfService {
+    /**
+     * Decode an uploaded VCF (plain text, gzip or BGZF) into text.
+     * The format is detected from magic bytes, never from the file name.
+     */
+    public decodeUpload(buffer: Buffer): string {
+        const compression = this.detectCompression(buffer);
+
+        let content: string;
+        if (compression === 'none') {
+            content = buffer.toString('utf-8');
+        } else {
+            try {
+                // BGZF is a series of gzip members; gunzip inflates all of them.
+                content = gunzipSync(buffer).toString('utf-8');
+            } catch (error) {
+                throw new VcfParseError(
+                    `Upload looks ${compression === 'bgzf' ? 'BGZF' : 'gzip'}-compressed but could not be decompressed: ${(error as Error).message}`,
+                );
+            }
+        }
+
+        const firstLine = content.split('\n').find((line) => line.trim()) ?? '';
+        if (!this.looksLikeVcf(firstLine)) {
+            throw new VcfParseError(
+                compression === 'none'
+                    ? 'Upload is not a VCF file (expected a text VCF or a gzip/BGZF-compressed VCF).'
+                    : 'Decompressed upload is not a VCF file.',
+            );
+        }
+
+        return content;
+    }
+
+    /**
+     * Inspect the gzip magic bytes (1f 8b) and, for BGZF, the 'BC' extra subfield.
+     */
+    public detectCompression(buffer: Buffer): VcfCompression {
+        if (buffer.length < 2 || buffer[0] !== 0x1f || buffer[1] !== 0x8b) return 'none';
+
+        // BGZF: FLG.FEXTRA set, XLEN >= 6, subfield SI1='B' SI2='C' with SLEN=2.
+        const hasExtra = buffer.length >= 18 && ((buffer[3] ?? 0) & 0x04) !== 0;
+        if (hasExtra && buffer[12] === 0x42 && buffer[13] === 0x43 && buffer[14] === 2) {
+            return 'bgzf';
+        }
+        return 'gzip';
+    }
+
     /**
      * Parse raw VCF text and return relevant variants for the target genes.
+     * For multi-sample VCFs only the first sample is returned; use parseVcfSamples
+     * to get every sample.
      */
     public parseVcf(vcfContent: string): ParsedVariant[] {
-        const variants: ParsedVariant[] = [];
+        const parsed = this.parseVcfSamples(vcfContent);
+        const firstSample = parsed.sampleIds[0] ?? SITES_ONLY_SAMPLE;
+        return parsed.variantsBySample.get(firstSample) ?? [];
+    }
+
+    /**
+     * Parse raw VCF text into per-sample variant lists for the target genes.
+     * Sample IDs come from the #CHROM header line.
+     */
+    public parseVcfSamples(vcfContent: string, options: ParseVcfOptions = {}): ParsedVcf {
+        const parser = this.createLineParser(options);
+        for (const line of vcfContent.split('\n')) parser.push(line);
+        return parser.finish();
+    }
+
+    /**
+     * Stream a VCF (plain text, gzip or BGZF) from disk line by line.
+     * Only rows for the target genes are retained, so memory use stays roughly
+     * constant regardless of file size.
+     */
+    public async parseVcfFile(filePath: string, options: ParseVcfOptions = {}): Promise<ParsedVcf> {
+        const parser = this.createLineParser(options);
+        await this.readVcfFile(filePath, (line) => parser.push(line));
+        return parser.finish();
+    }
+
+    /**
+     * Read only the pharmacogene regions of a bgzipped VCF, using its tabix/CSI index
+     * to seek straight to them instead of scanning the whole file.
+     */
+    public async parseVcfIndexed(
+        filePath: string,
+        index: TabixIndex,
+        options: ParseVcfOptions = {},
+    ): Promise<ParsedVcf> {
+        if (this.detectCompression(await this.readMagic(filePath)) !== 'bgzf') {
+            throw new VcfParseError('An index was supplied but the VCF is not BGZF-compressed (use bgzip).');
+        }
+
+        // The regions to fetch depend on the build, which the header may tell us.
+        const headerLines = await this.readHeaderLines(filePath);
+        const header = this.parseHeader(headerLines);
+        const build = options.build ?? header.inferredBuild ?? DEFAULT_GENOME_BUILD;
+
+        const parser = this.createLineParser({ ...options, build });
+        for (const line of headerLines) parser.push(line);
+
+        const spanning = new Set<string>();
+        for (const region of geneRegionService.getRegions(build)) {
+            // The index may name contigs '22' or 'chr22'; use whichever it knows.
+            const contig = index.names.find(
+                (name) => geneRegionService.normalizeChrom(name) === region.chrom,
+            );
+            if (!contig) continue;
+
+            let lines: string[];
+            try {
+                lines = await tabixService.queryLines(filePath, index, contig, region.start, region.end);
+            } catch (error) {
+                if (error instanceof TabixIndexError) throw new VcfParseError(error.message);
+                throw error;
+            }
+
+            for (const line of lines) {
+                const [, posStr, , , alt = '', , , info = ''] = line.split('\t', 8);
+                const pos = Number(posStr);
+                if (pos > region.end || this.recordEnd(pos, alt, info) < region.start) continue;
+                // A structural variant starting upstream can span two regions; read it once.
+                if (pos < region.start) {
+                    if (spanning.has(line)) continue;
+                    spanning.add(line);
+                }
+                parser.push(line);
+            }
+        }
+
+        return parser.finish();
+    }
+
+    /**
+     * Parse the ## meta lines and #CHROM line of a VCF header.
+     */
+    public parseHeader(lines: Iterable<string>): VcfHeader {
+        const header: VcfHeader = { contigs: [], info: {}, format: {} };
+        for (const raw of lines) {
+            const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+            if (line.startsWith('##')) {
+                this.parseMetaLine(header, line);
+            } else if (line.startsWith('#CHROM')) {
+                header.columns = line.split('\t');
+            } else if (line) {
+                break;
+            }
+        }
+        header.inferredBuild = geneRegionService.inferBuild(header.reference, header.contigs);
+        return header;
+    }
+
+    /**
+     * Check a VCF on disk for structural problems without running an analysis.
+     */
+    public async validateVcfFile(filePath: string): Promise<VcfValidationReport> {
+        const validator = this.createValidator();
+        await this.readVcfFile(filePath, (line) => validator.push(line));
+        return validator.finish();
+    }
+
+    /**
+     * Check in-memory VCF text for structural problems.
+     */
+    public validateVcf(vcfContent: string): VcfValidationReport {
+        const validator = this.createValidator();
         const lines = vcfContent.split('\n');
+        // A trailing newline is not an extra (empty) line.
+        if (lines[lines.length - 1] === '') lines.pop();
+        for (const line of lines) validator.push(line);
+        return validator.finish();
+    }
 
-        for (const line of lines) {
-            if (!line || line.startsWith('#')) continue;
+    /** First bytes of a file, enough for detectCompression. */
+    private async readMagic(filePath: string): Promise<Buffer> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const { buffer, bytesRead } = await handle.read(Buffer.alloc(18), 0, 18, 0);
+            return buffer.subarray(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Feed every line of a VCF on disk (plain text, gzip or BGZF) to onLine, in order.
+     * Lines keep a trailing '\r' so CRLF files can be detected.
+     */
+    private async readVcfFile(filePath: string, onLine: (line: string) => void): Promise<void> {
+        const compression = this.detectCompression(await this.readMagic(filePath));
+        const fileStream = fs.createReadStream(filePath);
+        let input: Readable = fileStream;
+        if (compression !== 'none') {
+            // pipe() does not forward errors, so surface source errors on the gunzip stream.
+            const gunzip = createGunzip();
+            fileStream.on('error', (error) => gunzip.destroy(error));
+            input = fileStream.pipe(gunzip);
+        }
+
+        let checked = false;
+        try {
+            for await (const line of readLines(input)) {
+                if (!checked && line.trim()) {
+                    checked = true;
+                    if (!this.looksLikeVcf(line)) {
+                        throw new VcfParseError(
+                            'Upload is not a VCF file (expected a text VCF or a gzip/BGZF-compressed VCF).',
+                        );
+                    }
+                }
+                onLine(line);
+            }
+        } catch (error) {
+            // zlib errors carry Z_* codes (Z_DATA_ERROR, Z_BUF_ERROR, ...).
+            const code = (error as NodeJS.ErrnoException).code;
+            if (compression !== 'none' && code?.startsWith('Z_')) {
+                throw new VcfParseError(
+                    `Upload looks ${compression === 'bgzf' ? 'BGZF' : 'gzip'}-compressed but could not be decompressed: ${(error as Error).message}`,
+                );
+            }
+            throw error;
+        } finally {
+            input.destroy();
+            fileStream.destroy();
+        }
+
+        if (!checked) throw new VcfParseError('Upload is empty.');
+    }
+
+    /**
+     * Read the '#' header block from the start of a bgzipped VCF, stopping at the
+     * first record.
+     */
+    private async readHeaderLines(filePath: string): Promise<string[]> {
+        const fileStream = fs.createReadStream(filePath);
+        const gunzip = createGunzip();
+        fileStream.on('error', (error) => gunzip.destroy(error));
+        fileStream.pipe(gunzip);
+
+        const header: string[] = [];
+        try {
+            for await (const line of readLines(gunzip)) {
+                if (!line.startsWith('#')) break;
+                header.push(line);
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code?.startsWith('Z_')) {
+                throw new VcfParseError(
+                    `Upload looks BGZF-compressed but could not be decompressed: ${(error as Error).message}`,
+                );
+            }
+            throw error;
+        } finally {
+            gunzip.destroy();
+            fileStream.destroy();
+        }
+
+        if (header.length === 0) throw new VcfParseError('VCF has no header lines.');
+        return header;
+    }
+
+    /**
+     * Incremental record parser shared by the in-memory and streaming entry points.
+     * Feed it one line at a time (in file order) and call finish() at the end.
+     */
+    private createLineParser(options: ParseVcfOptions): {
+        push: (line: string) => void;
+        finish: () => ParsedVcf;
+    } {
+        let headerSamples: string[] | undefined;
+        let selected: { id: string; column: number }[] | undefined;
+        let sampleCount = 0;
+        const variantsBySample = new Map<string, ParsedVariant[]>();
+        const headerLines: string[] = [];
+        let header: VcfHeader | undefined;
+        let build = options.build ?? DEFAULT_GENOME_BUILD;
+
+        // The header is complete once the first record (or the end of input) is reached.
+        const closeHeader = (): VcfHeader => {
+            if (!header) {
+                header = this.parseHeader(headerLines);
+                build = options.build ?? header.inferredBuild ?? DEFAULT_GENOME_BUILD;
+            }
+            return header;
+        };
+
+        const push = (rawLine: string): void => {
+            const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+            if (line.startsWith('#CHROM')) {
+                headerSamples = line.split('\t').slice(9);
+                headerLines.push(line);
+                return;
+            }
+            if (line.startsWith('##')) {
+                if (!header) headerLines.push(line);
+                return;
+            }
+            if (!line || line.startsWith('#')) return;
 
             const parts = line.split('\t');
             // VCF standard columns:
             // 0: CHROM, 1: POS, 2: ID, 3: REF, 4: ALT, 5: QUAL, 6: FILTER, 7: INFO
-            if (parts.length < 8) continue;
+            // 8: FORMAT, 9+: one column per sample
+            if (parts.length < 8) return;
+
+            if (!selected) {
+                closeHeader();
+                // Fall back to positional names for header-less files.
+                const sampleIds =
+                    headerSamples ?? parts.slice(9).map((_, i) => `SAMPLE_${i + 1}`);
+                sampleCount = sampleIds.length;
+                selected = this.selectSamples(sampleIds, options.samples);
+                for (const { id } of selected) variantsBySample.set(id, []);
+            }
+
+            const [chrom, pos, id, ref, alt, qualStr, filter, infoStr, formatStr] = parts;
+
+            if (!chrom || !pos || !ref || !alt || !infoStr) return;
 
-            const [chrom, pos, id, ref, alt, _qual, _filter, infoStr] = parts;
+            // Assign the gene by coordinates first; INFO/GENE (when present) wins.
+            // Structural variants count when their span overlaps the region.
+            const regionGene = geneRegionService.findGene(
+                build,
+                chrom,
+                Number(pos),
+                this.recordEnd(Number(pos), alt, infoStr),
+            );
 
-            if (!chrom || !pos || !ref || !alt || !infoStr) continue;
+            // Most WGS rows are outside every region and carry no GENE key, so
+            // skip them before paying for INFO parsing.
+            if (!regionGene && !infoStr.includes('GENE=')) return;
 
             // Parse INFO field
             const info: Record<string, string> = {};
@@ -51,33 +527,547 @@ export class VcfService {
                 }
             }
 
-            // Check for GENE in INFO
-            let gene = info['GENE'];
+            // Check for GENE in INFO, falling back to the gene-region table.
+            const gene = info['GENE'] ?? regionGene;
+            if (!gene) return;
 
-            // If no GENE in INFO, we skip it for this specific hackathon scope 
-            // where user said "VCF INFO fields: GENE".
-            if (!gene) continue;
-
-            // Handle multiple genes if present (e.g. comma separated)? 
+            // Handle multiple genes if present (e.g. comma separated)?
             // User said "VCF may contain many genes. Filter ONLY these 6."
             // Assuming simple match for now.
-            if (!TARGET_GENES.has(gene)) continue;
-
-            const starAllele = info['STAR'];
-
-            variants.push({
-                gene,
-                rsId: id && id !== '.' ? id : '', // Use standard ID column for RS
-                starAllele: starAllele || undefined,
-                chromosome: chrom,
-                position: pos,
-                ref,
-                alt,
-                info
+            if (!TARGET_GENES.has(gene)) return;
+
+            const qual = qualStr && qualStr !== '.' && !Number.isNaN(Number(qualStr)) ? Number(qualStr) : null;
+            const rowHeader = closeHeader();
+
+            // Parse each sample column once; split per ALT allele below.
+            const samples = selected.map((sample) => {
+                const sampleStr = parts[sample.column];
+                const sampleFields =
+                    formatStr && sampleStr ? this.parseSampleFields(formatStr, sampleStr) : undefined;
+                const gt = sampleFields?.['GT'];
+                return { id: sample.id, sampleFields, genotype: gt ? this.parseGenotype(gt) : undefined };
+            });
+
+            // Multi-allelic rows (ALT=A,T) become one variant per ALT allele, with
+            // genotypes remapped so the allele in question is index 1.
+            const alts = alt.split(',');
+            const multiallelic = alts.length > 1;
+            const referenceBlock = alts.every((a) => NON_REF_ALLELES.has(a))
+                ? { end: this.recordEnd(Number(pos), alt, info) }
+                : undefined;
+
+            alts.forEach((altAllele, i) => {
+                const altIndex = i + 1;
+                // '*' marks an overlapping upstream deletion, not a variant here.
+                if (altAllele === '*') return;
+                // Next to a called ALT, <NON_REF> only stands for "any other allele".
+                if (NON_REF_ALLELES.has(altAllele) && (!referenceBlock || i > 0)) return;
+
+                const normalized = normalizationService.normalize(build, chrom, Number(pos), ref, altAllele);
+                const alleleInfo = multiallelic
+                    ? this.splitPerAllele(info, rowHeader.info, altIndex, alts.length)
+                    : info;
+                const starAllele = alleleInfo['STAR'];
+                const structural = this.parseStructural(Number(pos), altAllele, alleleInfo);
+
+                const site: ParsedVariant = {
+                    gene,
+                    geneSource: info['GENE'] ? 'info' : 'coordinates',
+                    rsId: id && id !== '.' ? id : '', // Use standard ID column for RS
+                    starAllele: starAllele || undefined,
+                    structural,
+                    referenceBlock,
+                    chromosome: chrom,
+                    position: String(normalized.position),
+                    ref: normalized.ref,
+                    alt: normalized.alt,
+                    qual,
+                    filter: filter || '.',
+                    info: alleleInfo,
+                    original:
+                        multiallelic || normalized.changed
+                            ? { position: pos, ref, alt, altIndex }
+                            : undefined,
+                    unnormalized: normalized.normalized ? undefined : true,
+                };
+
+                // Sites-only VCFs have no FORMAT/sample columns; leave genotype unset.
+                if (samples.length === 0) {
+                    this.pushVariant(variantsBySample, SITES_ONLY_SAMPLE, site);
+                    return;
+                }
+
+                for (const sample of samples) {
+                    this.pushVariant(variantsBySample, sample.id, {
+                        ...site,
+                        sampleId: sample.id,
+                        genotype:
+                            multiallelic && sample.genotype
+                                ? this.remapGenotype(sample.genotype, altIndex)
+                                : sample.genotype,
+                        sampleFields:
+                            multiallelic && sample.sampleFields
+                                ? this.splitPerAllele(sample.sampleFields, rowHeader.format, altIndex, alts.length)
+                                : sample.sampleFields,
+                    });
+                }
             });
+        };
+
+        const finish = (): ParsedVcf => {
+            if (!selected) {
+                // No data lines: still honour the header so callers see the sample list.
+                sampleCount = headerSamples?.length ?? 0;
+                selected = this.selectSamples(headerSamples ?? [], options.samples);
+                for (const { id } of selected) variantsBySample.set(id, []);
+            }
+
+            return {
+                sampleIds: selected.map((s) => s.id),
+                sampleCount,
+                variantsBySample,
+                header: closeHeader(),
+                build,
+            };
+        };
+
+        return { push, finish };
+    }
+
+    /**
+     * Line-by-line structural checks behind validateVcf/validateVcfFile.
+     * Per-line problems are reported with their line number; undeclared keys and
+     * CRLF endings are summarised once with a count.
+     */
+    private createValidator(): {
+        push: (line: string) => void;
+        finish: () => VcfValidationReport;
+    } {
+        const header: VcfHeader = { contigs: [], info: {}, format: {} };
+        const lineIssues: VcfValidationIssue[] = [];
+        let errorCount = 0;
+        let warningCount = 0;
+        let lineNo = 0;
+        let recordCount = 0;
+        let columns: string[] | undefined;
+        let missingHeaderReported = false;
+        let crlf: { first: number; count: number } | undefined;
+        const undeclaredInfo = new Map<string, { first: number; count: number }>();
+        const undeclaredFormat = new Map<string, { first: number; count: number }>();
+
+        const addIssue = (issue: VcfValidationIssue): void => {
+            if (issue.severity === 'error') errorCount++;
+            else warningCount++;
+            if (lineIssues.length < MAX_REPORTED_ISSUES) lineIssues.push(issue);
+        };
+        const error = (code: string, message: string, line?: number) =>
+            addIssue({ severity: 'error', code, message, line });
+        const warning = (code: string, message: string, line?: number) =>
+            addIssue({ severity: 'warning', code, message, line });
+        const track = (map: Map<string, { first: number; count: number }>, key: string) => {
+            const seen = map.get(key);
+            if (seen) seen.count++;
+            else map.set(key, { first: lineNo, count: 1 });
+        };
+
+        const push = (rawLine: string): void => {
+            lineNo++;
+            let line = rawLine;
+            if (line.endsWith('\r')) {
+                line = line.slice(0, -1);
+                if (crlf) crlf.count++;
+                else crlf = { first: lineNo, count: 1 };
+            }
+
+            if (lineNo === 1 && !line.startsWith('##fileformat=')) {
+                error('MISSING_FILEFORMAT', 'First line must be ##fileformat=VCFv4.x.', 1);
+            }
+
+            if (line.startsWith('##')) {
+                if (columns) error('META_AFTER_HEADER', 'Meta-information line after the #CHROM header line.', lineNo);
+                if (!/^##[^=]+=/.test(line)) {
+                    warning('MALFORMED_META', 'Meta-information line is not of the form ##key=value.', lineNo);
+                    return;
+                }
+                this.parseMetaLine(header, line);
+                return;
+            }
+
+            if (line.startsWith('#')) {
+                if (!line.startsWith('#CHROM')) {
+                    error('MALFORMED_HEADER', 'Header lines must start with ## or be the #CHROM line.', lineNo);
+                    return;
+                }
+                columns = line.split('\t');
+                header.columns = columns;
+                const found = columns.slice(0, FIXED_COLUMNS.length);
+                if (found.join('\t') !== FIXED_COLUMNS.join('\t')) {
+                    error(
+                        'BAD_HEADER_COLUMNS',
+                        `Expected columns ${FIXED_COLUMNS.join(', ')}; found ${found.join(', ')}.`,
+                        lineNo,
+                    );
+                }
+                if (columns.length > 8 && columns[8] !== 'FORMAT') {
+                    error('BAD_HEADER_COLUMNS', `Column 9 must be FORMAT; found ${columns[8]}.`, lineNo);
+                }
+                if (columns.length === 9) {
+                    warning('FORMAT_WITHOUT_SAMPLES', 'FORMAT column present but no sample columns.', lineNo);
+                }
+                const samples = columns.slice(9);
+                const duplicates = samples.filter((id, i) => samples.indexOf(id) !== i);
+                if (duplicates.length > 0) {
+                    error('DUPLICATE_SAMPLE', `Duplicate sample IDs: ${[...new Set(duplicates)].join(', ')}.`, lineNo);
+                }
+                return;
+            }
+
+            if (!line.trim()) {
+                warning('EMPTY_LINE', 'Empty line.', lineNo);
+                return;
+            }
+
+            recordCount++;
+            if (!columns && !missingHeaderReported) {
+                missingHeaderReported = true;
+                error('MISSING_HEADER_LINE', 'Record found before the #CHROM header line.', lineNo);
+            }
+
+            const parts = line.split('\t');
+            if (parts.length < 8) {
+                error('MISSING_COLUMNS', `Record has ${parts.length} column(s); at least 8 are required.`, lineNo);
+                return;
+            }
+            if (columns && parts.length !== columns.length) {
+                error(
+                    'COLUMN_COUNT_MISMATCH',
+                    `Record has ${parts.length} columns but the header declares ${columns.length}.`,
+                    lineNo,
+                );
+            }
+
+            const [chrom, pos, _id, ref, alt, qual, _filter, info, format] = parts;
+            if (!chrom) error('INVALID_CHROM', 'CHROM is empty.', lineNo);
+            if (!/^\d+$/.test(pos ?? '')) error('INVALID_POS', `POS "${pos}" is not a positive integer.`, lineNo);
+            if (!/^[ACGTNacgtn]+$/.test(ref ?? '')) error('INVALID_REF', `REF "${ref}" is not a base sequence.`, lineNo);
+            if (!alt) error('INVALID_ALT', 'ALT is empty.', lineNo);
+            if (qual && qual !== '.' && Number.isNaN(Number(qual))) {
+                warning('INVALID_QUAL', `QUAL "${qual}" is not a number.`, lineNo);
+            }
+
+            if (info && info !== '.') {
+                for (const part of info.split(';')) {
+                    const key = part.split('=')[0];
+                    if (key && !header.info[key]) track(undeclaredInfo, key);
+                }
+            }
+            if (format) {
+                for (const key of format.split(':')) {
+                    if (key && !header.format[key]) track(undeclaredFormat, key);
+                }
+            }
+        };
+
+        const finish = (): VcfValidationReport => {
+            // Summary issues come first so the per-line cap never hides them.
+            const summary: VcfValidationIssue[] = [];
+            const summaryError = (code: string, message: string, line?: number) => {
+                errorCount++;
+                summary.push({ severity: 'error', code, message, line });
+            };
+            const summaryWarning = (code: string, message: string, line?: number) => {
+                warningCount++;
+                summary.push({ severity: 'warning', code, message, line });
+            };
+
+            if (!columns && !missingHeaderReported) {
+                summaryError('MISSING_HEADER_LINE', 'No #CHROM header line found.');
+            }
+            if (recordCount === 0) summaryWarning('NO_RECORDS', 'VCF contains no records.');
+            for (const [key, { first, count }] of undeclaredInfo) {
+                summaryWarning(
+                    'UNDECLARED_INFO',
+                    `INFO key "${key}" is used in ${count} record(s) but has no ##INFO definition.`,
+                    first,
+                );
+            }
+            for (const [key, { first, count }] of undeclaredFormat) {
+                summaryWarning(
+                    'UNDECLARED_FORMAT',
+                    `FORMAT key "${key}" is used in ${count} record(s) but has no ##FORMAT definition.`,
+                    first,
+                );
+            }
+            if (crlf) {
+                summaryWarning(
+                    'CRLF_LINE_ENDINGS',
+                    `${crlf.count} line(s) end with CRLF (Windows) line endings; VCF requires LF.`,
+                    crlf.first,
+                );
+            }
+
+            header.inferredBuild = geneRegionService.inferBuild(header.reference, header.contigs);
+            if (!header.inferredBuild) {
+                summaryWarning(
+                    'UNKNOWN_BUILD',
+                    `Genome build could not be inferred from ##reference/##contig lines; ${DEFAULT_GENOME_BUILD} will be assumed unless genome_build is given.`,
+                );
+            }
+
+            const issues = [...summary, ...lineIssues].slice(0, MAX_REPORTED_ISSUES);
+            return {
+                valid: errorCount === 0,
+                fileformat: header.fileformat ?? null,
+                genome_build: header.inferredBuild ?? null,
+                samples: columns?.slice(9) ?? [],
+                total_lines: lineNo,
+                record_count: recordCount,
+                info_definitions: Object.keys(header.info),
+                format_definitions: Object.keys(header.format),
+                error_count: errorCount,
+                warning_count: warningCount,
+                issues,
+                issues_truncated: issues.length < errorCount + warningCount,
+            };
+        };
+
+        return { push, finish };
+    }
+
+    /**
+     * Record the ##fileformat, ##reference, ##contig, ##INFO and ##FORMAT lines we use.
+     */
+    private parseMetaLine(header: VcfHeader, line: string): void {
+        const eq = line.indexOf('=');
+        if (eq < 0) return;
+        const key = line.slice(2, eq);
+        const value = line.slice(eq + 1);
+
+        switch (key) {
+            case 'fileformat':
+                header.fileformat = value;
+                break;
+            case 'reference':
+                header.reference = value;
+                break;
+            case 'contig': {
+                const fields = this.parseStructuredMeta(value);
+                if (fields['ID']) {
+                    header.contigs.push({
+                        id: fields['ID'],
+                        length: fields['length'] ? Number(fields['length']) : undefined,
+                        assembly: fields['assembly'],
+                    });
+                }
+                break;
+            }
+            case 'INFO':
+            case 'FORMAT': {
+                const fields = this.parseStructuredMeta(value);
+                const id = fields['ID'];
+                if (!id) break;
+                (key === 'INFO' ? header.info : header.format)[id] = {
+                    id,
+                    number: fields['Number'],
+                    type: fields['Type'],
+                    description: fields['Description'],
+                };
+                break;
+            }
+        }
+    }
+
+    /**
+     * Parse a structured meta value such as <ID=DP,Number=1,Description="Read depth, raw">.
+     */
+    private parseStructuredMeta(value: string): Record<string, string> {
+        const fields: Record<string, string> = {};
+        if (!value.startsWith('<')) return fields;
+
+        const body = value.slice(1, value.endsWith('>') ? -1 : undefined);
+        for (const match of body.matchAll(/([^=,]+)=("(?:[^"\\]|\\.)*"|[^,]*)/g)) {
+            const key = match[1]?.trim();
+            let field = match[2] ?? '';
+            if (field.startsWith('"')) field = field.slice(1, -1).replace(/\\(.)/g, '$1');
+            if (key) fields[key] = field;
+        }
+        return fields;
+    }
+
+    /**
+     * Parse a GT string ("0/1", "1|1", "./.", "1") into allele indices and zygosity.
+     * Partial calls such as "./1" are flagged as no-calls rather than guessed.
+     */
+    public parseGenotype(gt: string): Genotype {
+        const phased = gt.includes('|');
+        const alleles = gt
+            .split(/[/|]/)
+            .map((a) => (a === '.' || a === '' ? null : Number(a)))
+            .map((a) => (a === null || Number.isNaN(a) ? null : a));
+
+        const noCall = alleles.some((a) => a === null);
+
+        let zygosity: Zygosity;
+        if (noCall) {
+            zygosity = 'no_call';
+        } else if (alleles.length === 1) {
+            zygosity = alleles[0] === 0 ? 'homozygous_ref' : 'hemizygous';
+        } else if (alleles.every((a) => a === 0)) {
+            zygosity = 'homozygous_ref';
+        } else if (alleles.every((a) => a === alleles[0])) {
+            zygosity = 'homozygous_alt';
+        } else {
+            zygosity = 'heterozygous';
+        }
+
+        return { raw: gt, alleles, phased, noCall, zygosity };
+    }
+
+    /**
+     * Project a multi-allelic genotype onto one ALT allele: that allele becomes 1,
+     * REF and every other ALT become 0 (as bcftools norm -m- does).
+     */
+    public remapGenotype(genotype: Genotype, altIndex: number): Genotype {
+        const separator = genotype.phased ? '|' : '/';
+        const raw = genotype.alleles
+            .map((a) => (a === null ? '.' : a === altIndex ? '1' : '0'))
+            .join(separator);
+        return this.parseGenotype(raw);
+    }
+
+    /**
+     * Structural variant described by a symbolic ALT (or INFO/SVTYPE), if any.
+     */
+    private parseStructural(
+        pos: number,
+        alt: string,
+        info: Record<string, string>,
+    ): StructuralVariant | undefined {
+        const symbolic = /^<([A-Z]+)(\d*)/.exec(alt);
+        let type: StructuralVariantType | undefined;
+        let copyNumber: number | null = null;
+
+        if (symbolic?.[1] === 'CN' && symbolic[2]) {
+            type = 'CNV';
+            copyNumber = Number(symbolic[2]);
+        } else if (symbolic?.[1] === 'DEL' || symbolic?.[1] === 'DUP' || symbolic?.[1] === 'CNV') {
+            type = symbolic[1];
+        } else if (info['SVTYPE'] === 'DEL' || info['SVTYPE'] === 'DUP' || info['SVTYPE'] === 'CNV') {
+            type = info['SVTYPE'];
         }
+        if (!type) return undefined;
+
+        const cn = Number(info['CN']);
+        if (info['CN'] !== undefined && Number.isInteger(cn)) copyNumber = cn;
+
+        return { type, end: this.recordEnd(pos, alt, info), copyNumber };
+    }
+
+    /**
+     * Last base a record covers: POS for sequence alleles, INFO/END (or
+     * POS + |SVLEN|) for symbolic ones and reference blocks. Accepts raw or
+     * parsed INFO.
+     */
+    private recordEnd(pos: number, alt: string, info: string | Record<string, string>): number {
+        if (!alt.startsWith('<') && alt !== '.') return pos;
+        const field = (key: string) =>
+            typeof info === 'string'
+                ? new RegExp(`(?:^|;)${key}=(-?\\d+)`).exec(info)?.[1]
+                : info[key];
+
+        const end = Number(field('END'));
+        if (Number.isInteger(end) && end >= pos) return end;
+        const svlen = Number(field('SVLEN'));
+        return Number.isInteger(svlen) ? pos + Math.abs(svlen) : pos;
+    }
+
+    /**
+     * Reduce Number=A / Number=R fields to the values for one ALT allele. STAR is
+     * split too when it lists one value per ALT, since it is rarely declared.
+     */
+    private splitPerAllele(
+        fields: Record<string, string>,
+        definitions: Record<string, VcfFieldDefinition>,
+        altIndex: number,
+        altCount: number,
+    ): Record<string, string> {
+        const split: Record<string, string> = { ...fields };
+        for (const [key, value] of Object.entries(fields)) {
+            const values = value.split(',');
+            const number = definitions[key]?.number ?? (key === 'STAR' ? 'A' : undefined);
+            if (number === 'A' && values.length === altCount) {
+                split[key] = values[altIndex - 1] ?? '.';
+            } else if (number === 'R' && values.length === altCount + 1) {
+                split[key] = `${values[0]},${values[altIndex] ?? '.'}`;
+            }
+        }
+        return split;
+    }
+
+    /**
+     * Returns true when the call carries at least one ALT allele.
+     * Variants without a genotype (sites-only VCFs) are treated as carried.
+     */
+    public isCarrier(variant: ParsedVariant): boolean {
+        if (variant.referenceBlock) return false;
+        if (!variant.genotype) return true;
+        return variant.genotype.alleles.some((a) => a !== null && a > 0);
+    }
+
+    /**
+     * Checks the first non-empty line: a text VCF starts with a ## meta line, the
+     * #CHROM header, or (header-less) a record with at least the 8 fixed columns.
+     * Binary content is rejected outright.
+     */
+    private looksLikeVcf(firstLine: string): boolean {
+        if (firstLine.includes('\0')) return false;
+
+        const line = firstLine.trim();
+        if (line.startsWith('##') || line.startsWith('#CHROM')) return true;
+
+        const columns = line.split('\t');
+        return columns.length >= 8 && /^\d+$/.test(columns[1] ?? '');
+    }
+
+    private selectSamples(
+        sampleIds: string[],
+        requested?: string[],
+    ): { id: string; column: number }[] {
+        const columns = sampleIds.map((id, i) => ({ id, column: 9 + i }));
+        if (!requested || requested.length === 0) return columns;
+
+        const missing = requested.filter((id) => !sampleIds.includes(id));
+        if (missing.length > 0) {
+            throw new VcfParseError(`Sample(s) not found in VCF: ${missing.join(', ')}`);
+        }
+
+        return columns.filter((c) => requested.includes(c.id));
+    }
+
+    private pushVariant(
+        variantsBySample: Map<string, ParsedVariant[]>,
+        sampleId: string,
+        variant: ParsedVariant,
+    ): void {
+        const list = variantsBySample.get(sampleId);
+        if (list) {
+            list.push(variant);
+        } else {
+            variantsBySample.set(sampleId, [variant]);
+        }
+    }
+
+    private parseSampleFields(formatStr: string, sampleStr: string): Record<string, string> {
+        const keys = formatStr.split(':');
+        const values = sampleStr.split(':');
+        const fields: Record<string, string> = {};
+
+        keys.forEach((key, i) => {
+            // Trailing FORMAT fields may be dropped by the caller; treat them as missing.
+            fields[key] = values[i] ?? '.';
+        });
 
-        return variants;
+        return fields;
     }
 }
 
@@ -0,0 +1,206 @@
+import type { GeneResult } from './ruleEngine.service';
+
+export type IwpcRace = 'asian' | 'black' | 'white' | 'missing_or_mixed';
+
+/** Clinical covariates from the request; all optional, validated by the controller. */
+export interface PatientCovariates {
+    age?: number;
+    heightCm?: number;
+    weightKg?: number;
+    race?: string;
+    /** Lower-cased drug names; canonical where the drug dictionary knows them. */
+    medications: string[];
+}
+
+export interface DoseTerm {
+    term: string;
+    coefficient: number;
+    /** Covariate value the coefficient is multiplied by (1/0 for indicators). */
+    value: number;
+    contribution: number;
+}
+
+export interface WarfarinDoseEstimate {
+    algorithm: 'IWPC pharmacogenetic';
+    status: 'calculated' | 'insufficient_data';
+    weekly_dose_mg: number | null;
+    daily_dose_mg: number | null;
+    sqrt_weekly_dose: number | null;
+    /** Required covariates that were not supplied. */
+    missing_inputs: string[];
+    inputs: {
+        age_decades: number | null;
+        height_cm: number | null;
+        weight_kg: number | null;
+        race: IwpcRace;
+        cyp2c9: string;
+        vkorc1: string;
+        enzyme_inducer: boolean;
+        amiodarone: boolean;
+    };
+    terms: DoseTerm[];
+    notes: string[];
+}
+
+// International Warfarin Pharmacogenetics Consortium, NEJM 2009;360:753-64.
+// The model predicts the square root of the weekly maintenance dose (mg).
+const INTERCEPT = 5.6044;
+const AGE_DECADES = -0.2614;
+const HEIGHT_CM = 0.0087;
+const WEIGHT_KG = 0.0128;
+
+const VKORC1: Record<string, number> = { 'G/G': 0, 'A/G': -0.8677, 'A/A': -1.6974, unknown: -0.4854 };
+
+const CYP2C9: Record<string, number> = {
+    '*1/*1': 0,
+    '*1/*2': -0.5211,
+    '*1/*3': -0.9357,
+    '*2/*2': -1.0616,
+    '*2/*3': -1.9206,
+    '*3/*3': -2.3312,
+    unknown: -0.2188,
+};
+
+const RACE: Record<IwpcRace, number> = { white: 0, asian: -0.1092, black: -0.276, missing_or_mixed: -0.1032 };
+
+const ENZYME_INDUCER = 1.1816;
+const AMIODARONE = -0.5503;
+
+const ENZYME_INDUCERS = ['carbamazepine', 'phenytoin', 'rifampin', 'rifampicin'];
+
+const RACE_ALIASES: Record<string, IwpcRace> = {
+    asian: 'asian',
+    black: 'black',
+    'african american': 'black',
+    'black or african american': 'black',
+    white: 'white',
+    caucasian: 'white',
+};
+
+export class WarfarinDosingService {
+    /**
+     * Estimate the weekly warfarin maintenance dose with the IWPC pharmacogenetic
+     * algorithm from the CYP2C9 / VKORC1 calls and the patient covariates.
+     * Age, height and weight are required; genotype and race fall back to the
+     * algorithm's "unknown"/"missing" coefficients.
+     */
+    public estimate(geneResults: GeneResult[], patient: PatientCovariates): WarfarinDoseEstimate {
+        const notes: string[] = [];
+        const cyp2c9 = this.cyp2c9Genotype(geneResults, notes);
+        const vkorc1 = this.vkorc1Genotype(geneResults, notes);
+        const race = this.race(patient.race, notes);
+        const enzymeInducer = patient.medications.some((m) => ENZYME_INDUCERS.includes(m));
+        const amiodarone = patient.medications.includes('amiodarone');
+
+        const missing = (
+            [
+                ['age', patient.age],
+                ['height_cm', patient.heightCm],
+                ['weight_kg', patient.weightKg],
+            ] as const
+        )
+            .filter(([, value]) => value === undefined)
+            .map(([name]) => name);
+
+        const ageDecades = patient.age !== undefined ? Math.floor(patient.age / 10) : null;
+        const inputs = {
+            age_decades: ageDecades,
+            height_cm: patient.heightCm ?? null,
+            weight_kg: patient.weightKg ?? null,
+            race,
+            cyp2c9,
+            vkorc1,
+            enzyme_inducer: enzymeInducer,
+            amiodarone,
+        };
+
+        if (missing.length > 0) {
+            return {
+                algorithm: 'IWPC pharmacogenetic',
+                status: 'insufficient_data',
+                weekly_dose_mg: null,
+                daily_dose_mg: null,
+                sqrt_weekly_dose: null,
+                missing_inputs: missing,
+                inputs,
+                terms: [],
+                notes,
+            };
+        }
+
+        const terms = [
+            this.term('intercept', INTERCEPT, 1),
+            this.term('age_decades', AGE_DECADES, ageDecades!),
+            this.term('height_cm', HEIGHT_CM, patient.heightCm!),
+            this.term('weight_kg', WEIGHT_KG, patient.weightKg!),
+            this.term(`vkorc1_${vkorc1}`, VKORC1[vkorc1]!, 1),
+            this.term(`cyp2c9_${cyp2c9}`, CYP2C9[cyp2c9]!, 1),
+            this.term(`race_${race}`, RACE[race], 1),
+            this.term('enzyme_inducer', ENZYME_INDUCER, enzymeInducer ? 1 : 0),
+            this.term('amiodarone', AMIODARONE, amiodarone ? 1 : 0),
+        ];
+
+        const sqrtDose = terms.reduce((sum, t) => sum + t.contribution, 0);
+        // A non-positive square root means the covariates are outside the model's range.
+        const weekly = sqrtDose > 0 ? sqrtDose ** 2 : 0;
+        if (sqrtDose <= 0) notes.push('Covariates fall outside the range the IWPC model was fitted on.');
+
+        return {
+            algorithm: 'IWPC pharmacogenetic',
+            status: 'calculated',
+            weekly_dose_mg: this.round(weekly, 1),
+            daily_dose_mg: this.round(weekly / 7, 2),
+            sqrt_weekly_dose: this.round(sqrtDose, 4),
+            missing_inputs: [],
+            inputs,
+            terms,
+            notes,
+        };
+    }
+
+    /** IWPC only models *1, *2 and *3; other or missing calls use the "unknown" term. */
+    private cyp2c9Genotype(geneResults: GeneResult[], notes: string[]): string {
+        const diplotype = geneResults.find((r) => r.gene === 'CYP2C9')?.diplotype;
+        if (diplotype && diplotype in CYP2C9) return diplotype;
+
+        notes.push(
+            diplotype
+                ? `CYP2C9 ${diplotype} is not modelled by IWPC (only *1, *2, *3); the unknown-genotype coefficient was used.`
+                : 'No CYP2C9 call; the unknown-genotype coefficient was used.',
+        );
+        return 'unknown';
+    }
+
+    private vkorc1Genotype(geneResults: GeneResult[], notes: string[]): string {
+        const diplotype = geneResults.find((r) => r.gene === 'VKORC1')?.diplotype;
+        // "-1639G/-1639A" -> "A/G"
+        const bases = diplotype?.split('/').map((allele) => allele.replace('-1639', ''));
+        const genotype = bases ? [...bases].sort().join('/') : undefined;
+        if (genotype && genotype in VKORC1) return genotype;
+
+        notes.push('No VKORC1 -1639G>A call; the unknown-genotype coefficient was used.');
+        return 'unknown';
+    }
+
+    private race(raw: string | undefined, notes: string[]): IwpcRace {
+        const race = raw ? RACE_ALIASES[raw.trim().toLowerCase()] : undefined;
+        if (!race) {
+            notes.push(
+                raw
+                    ? `Race "${raw}" is treated as missing or mixed.`
+                    : 'Race not supplied; the missing/mixed coefficient was used.',
+            );
+        }
+        return race ?? 'missing_or_mixed';
+    }
+
+    private term(term: string, coefficient: number, value: number): DoseTerm {
+        return { term, coefficient, value, contribution: this.round(coefficient * value, 4) };
+    }
+
+    private round(value: number, digits: number): number {
+        return Number(value.toFixed(digits));
+    }
+}
+
+export const warfarinDosingService = new WarfarinDosingService();
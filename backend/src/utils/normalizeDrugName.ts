@@ -0,0 +1,28 @@
+// Salt words that do not change which drug is meant ("clopidogrel bisulfate").
+const SALT_WORDS = new Set([
+    'besylate',
+    'bisulfate',
+    'calcium',
+    'citrate',
+    'hcl',
+    'hydrochloride',
+    'maleate',
+    'mesylate',
+    'phosphate',
+    'potassium',
+    'sodium',
+    'succinate',
+    'sulfate',
+    'tartrate',
+]);
+
+/**
+ * Matching key for a drug name: lower case, without punctuation, spaces or
+ * salt words. "5-FU" and "5FU" share a key, as do "Clopidogrel Bisulfate"
+ * and "clopidogrel".
+ */
+export function normalizeDrugName(name: string): string {
+    const words = name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const kept = words.filter((w) => !SALT_WORDS.has(w));
+    return (kept.length > 0 ? kept : words).join('');
+}
@@ -0,0 +1,18 @@
+import type { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Split a text stream on '\n'. Unlike readline, this keeps '\r' and rejects
+ * when the input stream errors.
+ */
+export async function* readLines(input: Readable): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let rest = '';
+    for await (const chunk of input) {
+        const lines = (rest + decoder.write(chunk as Buffer)).split('\n');
+        rest = lines.pop() ?? '';
+        yield* lines;
+    }
+    rest += decoder.end();
+    if (rest) yield rest;
+}
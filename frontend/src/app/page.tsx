@@ -57,6 +57,7 @@ interface RawAnalysisResult {
     gene: string;
     phenotype: string;
     detected_variant: string;
+    diplotype?: string;
     total_variants_found: number;
     signature_hash: string;
   };
@@ -139,7 +140,9 @@ const transformAnalysisResult = (raw: RawAnalysisResult): AnalysisResult => {
     },
     pharmacogenomic_profile: {
       primary_gene: raw.pharmacogenomic_profile.gene,
-      diplotype: raw.pharmacogenomic_profile.detected_variant,
+      diplotype:
+        raw.pharmacogenomic_profile.diplotype ??
+        raw.pharmacogenomic_profile.detected_variant,
       phenotype: raw.pharmacogenomic_profile.phenotype,
       detected_variants: [
         { rsid: "N/A", variant: raw.pharmacogenomic_profile.detected_variant },